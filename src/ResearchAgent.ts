@@ -1,20 +1,43 @@
+import { dirname, join } from 'path';
 import type {
+  LLMBackendConfig,
+  ModelConfig,
   ResearchAgentConfig,
   ResearchOptions,
   ResearchResult,
-  SearchConfig
+  InstanceHealth,
+  ProviderOption,
+  LLMProvider as ILLMProvider,
+  SearchProvider as ISearchProvider,
+  ScraperProvider as IScraperProvider,
+  CacheProvider
 } from './types/index.js';
+import { CassetteMismatchError } from './types/index.js';
 import { LLMProvider } from './providers/LLMProvider.js';
 import { SearchProvider } from './providers/SearchProvider.js';
+import { isSearchBackendRegistered } from './providers/SearchBackends.js';
 import { ScraperProvider } from './providers/ScraperProvider.js';
+import { LocalCorpusProvider } from './providers/LocalCorpusProvider.js';
+import { CompositeSearchProvider } from './providers/CompositeSearchProvider.js';
 import { Cache } from './utils/Cache.js';
+import { ModelCatalog } from './utils/ModelCatalog.js';
+import { PricingRegistry } from './utils/PricingRegistry.js';
+import { ModelSelector } from './utils/ModelSelector.js';
+import { ConsoleFormatter } from './utils/ConsoleFormatter.js';
 import { Pipeline } from './orchestrator/Pipeline.js';
+import { Cassette } from './utils/Cassette.js';
+import {
+  CassetteLLMProvider,
+  CassetteSearchProvider,
+  CassetteScraperProvider
+} from './providers/CassetteProviders.js';
 
 /**
  * Main ResearchAgent class
  *
  * A deep research agent that uses SearXNG for search, Jina.ai for scraping,
- * and OpenRouter for LLM-powered analysis and report generation.
+ * and OpenRouter (or any OpenAI-compatible backend) for LLM-powered analysis
+ * and report generation.
  *
  * @example
  * ```typescript
@@ -34,28 +57,65 @@ import { Pipeline } from './orchestrator/Pipeline.js';
  * ```
  */
 export class ResearchAgent {
-  private llm: LLMProvider;
-  private search: SearchProvider;
-  private scraper: ScraperProvider;
-  private cache: Cache;
+  private llm: ILLMProvider;
+  private search: ISearchProvider;
+  private scraper: IScraperProvider;
+  private cache: CacheProvider;
   private pipeline: Pipeline;
   private config: ResearchAgentConfig;
+  private catalog?: ModelCatalog;
+  private requestedModelConfig?: ModelConfig; // Before auto-selection, so tiers can be re-picked from a refreshed catalog
+  private pricing: PricingRegistry;
+  private cassette?: Cassette;
+  private corpus?: LocalCorpusProvider;
 
   constructor(config: ResearchAgentConfig) {
     this.validateConfig(config);
     this.config = config;
 
-    this.llm = new LLMProvider(config.openRouterKey);
-    this.search = new SearchProvider(config.searxngConfig);
-    this.scraper = new ScraperProvider(config.maxConcurrentScrapes ?? 20);
-    this.cache = new Cache(config.persistence);
+    const providers = config.providers ?? {};
+
+    if (config.model?.catalogPath) {
+      this.catalog = new ModelCatalog({
+        path: config.model.catalogPath,
+        apiKey: config.openRouterKey,
+        ttlHours: config.model.catalogTtlHours
+      });
+    }
+    this.pricing = new PricingRegistry(this.catalog);
+    this.requestedModelConfig = config.model;
+    this.config = { ...config, model: this.resolveModelConfig(config.model) };
+
+    if (config.cassette) {
+      this.cassette = new Cassette(config.cassette);
+    }
+
+    this.llm = this.resolveProvider(providers.llm, () => new LLMProvider(this.resolveLLMBackend(config), this.pricing));
+    // A persistent cache would hide calls from the cassette, so recording and replaying skip it
+    this.cache = this.resolveProvider(providers.cache, () => new Cache(this.cassette ? undefined : config.persistence));
+    if (config.localCorpus) {
+      this.corpus = new LocalCorpusProvider(config.localCorpus, this.corpusIndexPath(config));
+    }
+
+    this.search = this.createSearchProvider(providers.search);
+    this.scraper = this.resolveProvider(
+      providers.scraper,
+      () => new ScraperProvider(config.maxConcurrentScrapes ?? 20, config.scraper, config.localCorpus?.directories ?? [], this.cache)
+    );
+
+    if (this.cassette) {
+      this.llm = new CassetteLLMProvider(this.llm, this.cassette);
+      this.search = new CassetteSearchProvider(this.search, this.cassette);
+      this.scraper = new CassetteScraperProvider(this.scraper, this.cassette);
+    }
 
     this.pipeline = new Pipeline(
       this.llm,
       this.search,
       this.scraper,
       this.cache,
-      config.model
+      this.config.model,
+      this.pricing
     );
   }
 
@@ -74,12 +134,32 @@ export class ResearchAgent {
     const depth = options.depth || this.config.depth || 'normal';
     const enableCostTracking = options.enableCostTracking ?? false;
 
+    // A replay must stay offline
+    if (this.cassette?.mode !== 'replay' && await this.catalog?.refreshIfStale()) {
+      this.config.model = this.resolveModelConfig(this.requestedModelConfig);
+      this.pipeline.setModelConfig(this.config.model);
+    }
+    this.corpus?.index(); // Pick up local documents changed since the last run
+    this.cassette?.takeMisses(); // Only report misses from this run
+
     const result = await this.pipeline.execute(query, {
       ...options,
       depth,
-      enableCostTracking
+      enableCostTracking,
+      // Prompts embed the date, so replays must see the date the cassette was recorded on
+      currentDate: options.currentDate ?? this.cassette?.recordedAt,
+      sourcePolicy: { ...this.config.sourcePolicy, ...options.sourcePolicy }
     });
 
+    // The pipeline degrades gracefully around failed calls; a replay miss must not pass silently
+    const misses = this.cassette?.takeMisses() ?? [];
+    if (misses.length > 0) {
+      throw new CassetteMismatchError(
+        `${misses.length} request(s) not found in cassette ${this.cassette!.path}; first: ${misses[0].message}`,
+        { misses: misses.map(miss => miss.details) }
+      );
+    }
+
     return result;
   }
 
@@ -87,26 +167,180 @@ export class ResearchAgent {
    * Close and cleanup resources
    */
   close(): void {
-    this.cache.close();
+    this.cache.close?.();
+    this.corpus?.close();
+  }
+
+  /**
+   * Web search, the local corpus, or both interleaved, depending on `localCorpus.mode`
+   */
+  private createSearchProvider(option?: ProviderOption<ISearchProvider>): ISearchProvider {
+    if (this.corpus && this.config.localCorpus?.mode === 'offline') {
+      return this.corpus;
+    }
+
+    const web = this.resolveProvider(option, () => new SearchProvider(this.config.searxngConfig!, this.cache));
+    return this.corpus ? new CompositeSearchProvider([this.corpus, web]) : web;
+  }
+
+  // The index lives next to the cache database when persistence is on, so it survives restarts
+  private corpusIndexPath(config: ResearchAgentConfig): string {
+    if (config.localCorpus?.indexPath) {
+      return config.localCorpus.indexPath;
+    }
+
+    if (config.persistence?.enabled && config.persistence.storagePath) {
+      return join(dirname(config.persistence.storagePath), 'corpus-index.db');
+    }
+
+    return ':memory:';
+  }
+
+  private resolveProvider<T extends object>(option: ProviderOption<T> | undefined, createDefault: () => T): T {
+    if (!option) {
+      return createDefault();
+    }
+
+    return typeof option === 'function' ? option(this.config) : option;
+  }
+
+  private resolveLLMBackend(config: ResearchAgentConfig): LLMBackendConfig {
+    const type = config.llm?.type ?? 'openrouter';
+
+    return {
+      ...config.llm,
+      type,
+      // openRouterKey only applies to OpenRouter; other backends must set llm.apiKey explicitly
+      apiKey: config.llm?.apiKey ?? (type === 'openrouter' ? config.openRouterKey : undefined)
+    };
+  }
+
+  /**
+   * Apply catalog-driven tier selection when `model.autoSelect` is set
+   *
+   * Configured customModels/tierModels IDs must exist in the catalog; tiers
+   * without an explicit tierModels entry are picked from it.
+   */
+  private resolveModelConfig(modelConfig: ModelConfig | undefined): ModelConfig | undefined {
+    if (!modelConfig?.autoSelect || !this.catalog) {
+      return modelConfig;
+    }
+
+    if (this.catalog.size === 0) {
+      throw new Error(`model.autoSelect requires a model catalog at ${modelConfig.catalogPath} (run \`npm run fetch-models\`)`);
+    }
+
+    const unknown = ModelSelector.findUnknownModels(this.catalog, modelConfig);
+    if (unknown.length > 0) {
+      throw new Error(`Configured models not found in catalog ${modelConfig.catalogPath}: ${unknown.join(', ')}`);
+    }
+
+    const tierModels = ModelSelector.selectTierModels(this.catalog, modelConfig);
+    Object.entries(tierModels).forEach(([tier, models]) => {
+      console.log(ConsoleFormatter.info(`Auto-selected ${tier} tier: ${models.join(' → ')}`));
+    });
+
+    return { ...modelConfig, tierModels };
   }
 
   private validateConfig(config: ResearchAgentConfig): void {
-    if (!config.openRouterKey || config.openRouterKey.trim().length === 0) {
+    const backend = config.llm?.type ?? 'openrouter';
+    const apiKey = config.llm?.apiKey ?? config.openRouterKey;
+
+    // Replays never reach the LLM backend
+    const needsKey = !config.providers?.llm && config.cassette?.mode !== 'replay';
+
+    if (needsKey && backend === 'openrouter' && (!apiKey || apiKey.trim().length === 0)) {
       throw new Error('OpenRouter API key is required');
     }
 
-    if (!config.searxngConfig || !config.searxngConfig.instances || config.searxngConfig.instances.length === 0) {
-      throw new Error('At least one SearXNG instance must be provided');
+    // openRouterKey is not sent to other backends, so only llm.apiKey counts here
+    if (needsKey && backend === 'openai' && (!config.llm?.apiKey || config.llm.apiKey.trim().length === 0)) {
+      throw new Error('llm.apiKey is required for the openai backend');
     }
 
-    // Validate instances are URLs
-    config.searxngConfig.instances.forEach(instance => {
+    if (config.llm?.baseUrl) {
       try {
-        new URL(instance);
+        new URL(config.llm.baseUrl);
       } catch (error) {
-        throw new Error(`Invalid SearXNG instance URL: ${instance}`);
+        throw new Error(`Invalid LLM base URL: ${config.llm.baseUrl}`);
       }
-    });
+    }
+
+    if (config.localCorpus && !config.localCorpus.directories?.length) {
+      throw new Error('localCorpus.directories must list at least one directory');
+    }
+
+    // Search settings are only needed for the built-in search provider
+    if (!config.providers?.search && config.localCorpus?.mode !== 'offline') {
+      const instances = config.searxngConfig?.instances ?? [];
+      const backends = config.searxngConfig?.backends ?? [];
+
+      if (instances.length === 0 && backends.length === 0) {
+        throw new Error('At least one SearXNG instance or search backend must be provided');
+      }
+
+      // Validate instances are URLs
+      instances.forEach(instance => {
+        try {
+          new URL(instance);
+        } catch (error) {
+          throw new Error(`Invalid SearXNG instance URL: ${instance}`);
+        }
+      });
+
+      backends.forEach(backend => {
+        if (backend.type !== 'searxng' && !isSearchBackendRegistered(backend.type)) {
+          throw new Error(`Unknown search backend type: ${backend.type}`);
+        }
+
+        if (backend.url) {
+          try {
+            new URL(backend.url);
+          } catch (error) {
+            throw new Error(`Invalid search backend URL: ${backend.url}`);
+          }
+        }
+      });
+    }
+
+    if (config.model?.autoSelect && !config.model.catalogPath) {
+      throw new Error('model.catalogPath is required when model.autoSelect is set');
+    }
+
+    if (config.cassette && !config.cassette.path) {
+      throw new Error('cassette.path is required when cassette is set');
+    }
+
+    const jina = config.scraper?.jina;
+    if (jina?.baseUrl) {
+      try {
+        new URL(jina.baseUrl);
+      } catch (error) {
+        throw new Error(`Invalid Jina reader URL: ${jina.baseUrl}`);
+      }
+    }
+
+    if (jina?.requestsPerMinute !== undefined && !(jina.requestsPerMinute >= 0)) {
+      throw new Error('scraper.jina.requestsPerMinute must be 0 (unlimited) or more');
+    }
+
+    for (const limit of ['maxContentLength', 'maxPdfPages', 'maxCsvRows', 'maxConcurrentPerHost'] as const) {
+      const value = config.scraper?.[limit];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 1)) {
+        throw new Error(`scraper.${limit} must be a positive integer`);
+      }
+    }
+
+    const maxCrawlDelay = config.scraper?.maxCrawlDelay;
+    if (maxCrawlDelay !== undefined && !(maxCrawlDelay >= 0)) {
+      throw new Error('scraper.maxCrawlDelay must be 0 or more');
+    }
+
+    const maxPerDomain = config.sourcePolicy?.maxPerDomain;
+    if (maxPerDomain !== undefined && !(Number.isInteger(maxPerDomain) && maxPerDomain >= 1)) {
+      throw new Error('sourcePolicy.maxPerDomain must be a positive integer');
+    }
 
     // Validate persistence config if enabled
     if (config.persistence?.enabled && !config.persistence?.storagePath) {
@@ -114,6 +348,15 @@ export class ResearchAgent {
     }
   }
 
+  /**
+   * Health of each SearXNG instance (latency, error rate, circuit state), e.g. for dashboards
+   *
+   * Empty when the search provider doesn't track instance health.
+   */
+  getInstanceHealth(): InstanceHealth[] {
+    return this.search.getInstanceHealth?.() ?? [];
+  }
+
   getConfig(): ResearchAgentConfig {
     return { ...this.config };
   }
@@ -123,15 +366,23 @@ export class ResearchAgent {
       throw new Error('At least one SearXNG instance must be provided');
     }
 
-    this.config.searxngConfig.instances = instances;
-    this.search = new SearchProvider(this.config.searxngConfig);
+    if (this.config.providers?.search) {
+      throw new Error('Cannot update SearXNG instances when a custom search provider is configured');
+    }
+
+    this.config.searxngConfig = { ...this.config.searxngConfig, instances };
+    this.search = this.createSearchProvider();
+    if (this.cassette) {
+      this.search = new CassetteSearchProvider(this.search, this.cassette);
+    }
 
     this.pipeline = new Pipeline(
       this.llm,
       this.search,
       this.scraper,
       this.cache,
-      this.config.model
+      this.config.model,
+      this.pricing
     );
   }
 }
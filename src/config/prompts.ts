@@ -32,6 +32,7 @@ When given a research topic or question:
 Guidelines:
 - Keep queries specific: Aim for 10-20 words, targeting one angle per query
 - Adapt scale: For simple questions, use 2-3 queries; for complex, up to 5
+- Time-sensitive queries (news, recent releases, current prices or events): add "time_range" set to "day", "week", "month" or "year" to restrict results to that period. Omit it otherwise
 - End with a synthesis note: How these queries chain to answer the original
 
 **CRITICAL**: You MUST respond with ONLY valid JSON in this exact format:
@@ -138,7 +139,7 @@ You are a relevance filter for research sources. Given a topic and search result
 
 Process:
 1. Assess each: High (core match), Medium (supports/relates), Low (contextual/background)—based on direct topic alignment, depth, and utility
-2. Prioritize: Within ranks, order by recency, authority (e.g., .edu/.gov > blogs), and detail
+2. Prioritize: Within ranks, order by recency, authority (e.g., .edu/.gov > blogs), detail, and search consensus ("Found by" several queries)
 3. Flag: Note duplicates or biases briefly
 
 Remember: Err inclusive for breadth, but justify low ranks. No relevance? Exclude with reason.
@@ -203,6 +204,26 @@ List ALL sources consecutively [1-N], no gaps: [n]. [Title](URL) – [Snippet if
 Output the complete Markdown report directly. Do NOT wrap in JSON. Do NOT use code blocks. Output raw Markdown only.
 `;
 
+// ============================================================================
+// Repair Prompt - Asks the model to fix a response that failed validation
+// ============================================================================
+
+export const repairPrompt = (originalPrompt: string, invalidResponse: string, validationError: string) => `
+${originalPrompt}
+
+---
+
+Your previous response could not be used because it did not match the required JSON format.
+
+PREVIOUS RESPONSE:
+${invalidResponse}
+
+VALIDATION ERROR:
+${validationError}
+
+Respond again with ONLY the corrected raw JSON object, following the exact format specified above. Do NOT include any text before or after the JSON. Do NOT use markdown code blocks.
+`;
+
 export const PROMPTS = {
   planning: planningPrompt,
   summarizer: contentSummarizerPrompt,
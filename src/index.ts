@@ -8,25 +8,61 @@
 
 // Main exports
 export { ResearchAgent, createResearchAgent } from './ResearchAgent.js';
+export { registerSearchBackend } from './providers/SearchBackends.js';
 
 // Type exports
 export type {
   // Configuration
   ResearchAgentConfig,
+  LLMBackendConfig,
+  LLMBackendType,
+  ProviderOption,
+  ProviderOverrides,
   ModelConfig,
+  ModelChoice,
+  ModelAutoSelectConfig,
+  TierSelectionCriteria,
+  GenerationParams,
   SearchConfig,
+  SearchBackendConfig,
+  SearchBackendType,
+  JsonSearchMapping,
+  SearchParams,
+  SearchTimeRange,
+  CircuitBreakerConfig,
+  SearchRateLimitConfig,
+  RateLimitSettings,
+  InstanceHealth,
   PersistenceConfig,
+  CassetteConfig,
+  CassetteMode,
+  ScraperConfig,
+  JinaConfig,
+  DirectFetchMode,
+  ScrapeStrategy,
+  DocumentFormat,
+  LocalCorpusConfig,
+  LocalCorpusMode,
 
   // Research
   ResearchOptions,
   ResearchResult,
   ResearchMetadata,
   ResearchDepth,
+  ParseEvent,
+  BudgetAction,
+  BudgetStatus,
+  SourcePolicy,
+  FilteredSource,
+  SkippedSource,
 
   // Progress tracking
   ProgressEvent,
   ProgressCallback,
   ProgressStage,
+  LLMStreamCallback,
+  LLMGenerateResult,
+  LLMUsage,
 
   // Models and agents
   ModelTier,
@@ -34,24 +70,35 @@ export type {
 
   // Results
   CostBreakdown,
+  CostEntry,
+  UsageSource,
   SearchResult,
   ScrapedContent,
+  PlanningResponse,
+  EvaluationResponse,
+  FilteringResponse,
+  SummaryResponse,
 
   // Providers (for advanced usage)
   LLMProvider,
+  LLMGenerateOptions,
   SearchProvider,
+  SearchBackend,
+  SearchBackendFactory,
   ScraperProvider,
   CacheProvider,
 
   // Errors
-  ResearchAgentError,
   RateLimitError,
   SearchError,
   LLMError
 } from './types/index.js';
 
+// Error classes, exported as values so callers can use instanceof
+export { ResearchAgentError, BudgetExceededError, CassetteMismatchError } from './types/index.js';
+
 // Constants
-export { DEFAULT_MODELS, DEFAULT_AGENT_TIERS, DEPTH_CONFIGS } from './types/index.js';
+export { DEFAULT_MODELS, DEFAULT_TIER_CRITERIA, DEFAULT_AGENT_TIERS, DEFAULT_AGENT_GENERATION, DEPTH_CONFIGS } from './types/index.js';
 
 // Version
 export const VERSION = '1.0.0';
@@ -11,40 +11,113 @@ import type {
   FilteringResponse,
   SummaryResponse,
   ScrapedContent,
-  SearchResult
+  SearchResult,
+  LLMProvider,
+  SearchProvider,
+  ScraperProvider,
+  CacheProvider,
+  ParseEvent,
+  LLMStreamCallback,
+  LLMGenerateResult,
+  BudgetAction,
+  BudgetStatus,
+  ModelChoice,
+  GenerationParams,
+  LLMGenerateOptions,
+  SearchParams,
+  FilteredSource,
+  SkippedSource
+} from '../types/index.js';
+import {
+  DEPTH_CONFIGS,
+  DEFAULT_MODELS,
+  DEFAULT_AGENT_TIERS,
+  DEFAULT_AGENT_GENERATION,
+  BudgetExceededError,
+  CassetteMismatchError
 } from '../types/index.js';
-import { DEPTH_CONFIGS, DEFAULT_MODELS, DEFAULT_AGENT_TIERS } from '../types/index.js';
-import { LLMProvider } from '../providers/LLMProvider.js';
-import { SearchProvider } from '../providers/SearchProvider.js';
-import { ScraperProvider } from '../providers/ScraperProvider.js';
-import { Cache } from '../utils/Cache.js';
 import { CostEstimator } from '../utils/CostEstimator.js';
+import { BudgetTracker } from '../utils/BudgetTracker.js';
+import { ContextBudgeter } from '../utils/ContextBudgeter.js';
+import { SourceFilter } from '../utils/SourceFilter.js';
+import { RankFusion } from '../utils/RankFusion.js';
+import { PricingRegistry } from '../utils/PricingRegistry.js';
 import { QualityScorer } from '../utils/QualityScorer.js';
 import { ConsoleFormatter } from '../utils/ConsoleFormatter.js';
-import { PROMPTS } from '../config/prompts.js';
+import { ResponseValidator } from '../utils/ResponseValidator.js';
+import type { ValidationResult } from '../utils/ResponseValidator.js';
+import { PROMPTS, repairPrompt } from '../config/prompts.js';
+
+// Completion size assumed when projecting the cost of a call without maxTokens (LLMProvider's default)
+const PROJECTED_COMPLETION_TOKENS = 4096;
+
+// Cheaper tiers to try, in order, when a call would exceed the budget
+const TIER_DOWNGRADES: Record<ModelTier, ModelTier[]> = {
+  large: ['medium', 'small'],
+  medium: ['small'],
+  small: []
+};
+
+type PlannedQuery = PlanningResponse['queries'][number];
+
+// Local corpus documents (see LocalCorpusProvider)
+const isLocalUrl = (url: string): boolean => url.startsWith('file:');
+
+interface LLMCallResult {
+  content: string;
+  model: string; // Model that actually produced the content
+  chainIndex: number; // Position of the preferred model in the agent's fallback chain
+  cached: boolean;
+}
 
 export class Pipeline {
   private llm: LLMProvider;
   private search: SearchProvider;
   private scraper: ScraperProvider;
-  private cache: Cache;
+  private cache: CacheProvider;
   private costEstimator: CostEstimator;
   private modelConfig: ModelConfig;
   private seenUrls: Set<string> = new Set(); // Track URLs for deduplication
+  private parseEvents: ParseEvent[] = [];
+  private maxRepairAttempts: number = 2;
+  private onReportChunk?: LLMStreamCallback;
+  private reportChunksSent = false;
+  private budget: BudgetTracker;
+  private budgetAction: BudgetAction = 'downgrade';
+  private contextBudgeter: ContextBudgeter;
+  private pricing: PricingRegistry;
+  private currentDate: Date = new Date();
+  private searchParams?: SearchParams;
+  private searchCacheHitsAtStart = 0;
+  private sourceFilter: SourceFilter = new SourceFilter();
 
   constructor(
     llm: LLMProvider,
     search: SearchProvider,
     scraper: ScraperProvider,
-    cache: Cache,
-    modelConfig: ModelConfig = {}
+    cache: CacheProvider,
+    modelConfig: ModelConfig = {},
+    pricing: PricingRegistry = new PricingRegistry()
   ) {
     this.llm = llm;
     this.search = search;
     this.scraper = scraper;
     this.cache = cache;
     this.modelConfig = modelConfig;
-    this.costEstimator = new CostEstimator(false); // Will be enabled per-request
+    this.pricing = pricing;
+    this.costEstimator = new CostEstimator(false, pricing); // Will be enabled per-request
+    this.budget = new BudgetTracker({}, this.costEstimator);
+    this.contextBudgeter = new ContextBudgeter(
+      modelConfig.contextLengths,
+      model => pricing.getModelInfo(model).contextLength
+    );
+  }
+
+  /**
+   * Swap in a new model configuration, e.g. after tiers were re-selected from a refreshed catalog
+   */
+  setModelConfig(modelConfig: ModelConfig = {}): void {
+    this.modelConfig = modelConfig;
   }
 
   async execute(query: string, options: ResearchOptions = {}): Promise<ResearchResult> {
@@ -56,7 +129,25 @@ export class Pipeline {
     const allowPartialResults = options.allowPartialResults ?? true;
 
     this.seenUrls.clear();
-    this.costEstimator = new CostEstimator(enableCostTracking);
+    this.parseEvents = [];
+    this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    this.reportChunksSent = false;
+    const onReportChunk = options.onReportChunk;
+    this.onReportChunk = onReportChunk && ((chunk: string) => {
+      this.reportChunksSent = true;
+      onReportChunk(chunk);
+    });
+    this.currentDate = options.currentDate ?? new Date();
+    this.searchParams = options.searchParams;
+    this.searchCacheHitsAtStart = this.search.getSearchCacheHits?.() ?? 0;
+    this.sourceFilter = new SourceFilter(options.sourcePolicy);
+
+    // Budget enforcement needs usage data, so a limit implies cost tracking
+    const budgetLimits = { maxCostUsd: options.maxCostUsd, maxTokens: options.maxTokens };
+    const hasBudget = budgetLimits.maxCostUsd !== undefined || budgetLimits.maxTokens !== undefined;
+    this.costEstimator = new CostEstimator(enableCostTracking || hasBudget, this.pricing);
+    this.budget = new BudgetTracker(budgetLimits, this.costEstimator);
+    this.budgetAction = options.onBudgetExceeded ?? 'downgrade';
 
     const depthConfig = DEPTH_CONFIGS[depth];
     const executedQueries: string[] = [];
@@ -92,81 +183,98 @@ export class Pipeline {
 
       // Step 2: Execute searches
 
-      for (let round = 0; round < depthConfig.maxRounds; round++) {
-        checkCancellation();
-        currentRound = round + 1;
-        const queries = round === 0 ? initialQueries : [];
+      try {
+        for (let round = 0; round < depthConfig.maxRounds; round++) {
+          checkCancellation();
+          currentRound = round + 1;
+          const queries = round === 0 ? initialQueries : [];
+
+          if (queries.length === 0 && round > 0) {
+            // Need evaluation to generate follow-ups
+            checkCancellation();
+            onProgress({
+              stage: 'evaluating',
+              message: `Round ${currentRound}: Analyzing gaps...`,
+              progress: 30 + (round * 20)
+            });
+
+            const evaluation = await this.evaluateGaps(query, allSummaries);
+
+          if (evaluation.goal_met || evaluation.follow_up_queries.length === 0) {
+            onProgress({
+              stage: 'evaluating',
+              message: 'Research goal met, proceeding to final report...',
+              progress: 70
+            });
+            break;
+          }
+
+          // Map follow-up queries to match the expected format
+          queries.push(
+            ...evaluation.follow_up_queries.slice(0, 3).map(q => ({
+              query: q.query,
+              purpose: q.rationale,
+              priority: q.priority
+            }))
+          );
+        }
+
+          if (queries.length === 0) break;
 
-        if (queries.length === 0 && round > 0) {
-          // Need evaluation to generate follow-ups
+          // Execute searches
           checkCancellation();
           onProgress({
-            stage: 'evaluating',
-            message: `Round ${currentRound}: Analyzing gaps...`,
-            progress: 30 + (round * 20)
+            stage: 'searching',
+            message: `Round ${currentRound}: Executing ${queries.length} search queries...`,
+            progress: 25 + (round * 20)
           });
 
-          const evaluation = await this.evaluateGaps(query, allSummaries);
+          const roundResults = await this.executeSearches(queries, depthConfig.resultsPerQuery.max);
+          executedQueries.push(...queries.map(q => q.query));
 
-        if (evaluation.goal_met || evaluation.follow_up_queries.length === 0) {
+          // Scrape content
+          checkCancellation();
           onProgress({
-            stage: 'evaluating',
-            message: 'Research goal met, proceeding to final report...',
-            progress: 70
+            stage: 'scraping',
+            message: `Round ${currentRound}: Fetching content from ${roundResults.length} sources...`,
+            progress: 40 + (round * 20)
           });
-          break;
-        }
-
-        // Map follow-up queries to match the expected format
-        queries.push(
-          ...evaluation.follow_up_queries.slice(0, 3).map(q => ({
-            query: q.query,
-            purpose: q.rationale,
-            priority: q.priority
-          }))
-        );
-      }
-
-        if (queries.length === 0) break;
-
-        // Execute searches
-        checkCancellation();
-        onProgress({
-          stage: 'searching',
-          message: `Round ${currentRound}: Executing ${queries.length} search queries...`,
-          progress: 25 + (round * 20)
-        });
 
-        const roundResults = await this.executeSearches(queries.map(q => q.query), depthConfig.resultsPerQuery.max);
-        executedQueries.push(...queries.map(q => q.query));
+          const scrapedContent = await this.scrapeResults(roundResults);
+          allScrapedContent.push(...scrapedContent);
 
-        // Scrape content
-        checkCancellation();
-        onProgress({
-          stage: 'scraping',
-          message: `Round ${currentRound}: Fetching content from ${roundResults.length} sources...`,
-          progress: 40 + (round * 20)
-        });
-
-        const scrapedContent = await this.scrapeResults(roundResults);
-        allScrapedContent.push(...scrapedContent);
-
-        // Summarize content
-        checkCancellation();
-        onProgress({
-          stage: 'summarizing',
-          message: `Round ${currentRound}: Synthesizing content...`,
-          progress: 55 + (round * 20)
-        });
+          // Summarize content
+          checkCancellation();
+          onProgress({
+            stage: 'summarizing',
+            message: `Round ${currentRound}: Synthesizing content...`,
+            progress: 55 + (round * 20)
+          });
 
-        const summaries = await this.summarizeContent(query, scrapedContent);
-        allSummaries.push(...summaries);
+          const summaries = await this.summarizeContent(query, scrapedContent);
+          allSummaries.push(...summaries);
+        }
+      } catch (error) {
+        // Over budget mid-research: keep what we have and move on to the report
+        if (!this.handleBudgetExceeded(error, 'skipped-rounds')) {
+          throw error;
+        }
       }
 
-      // Step 3: Filter and rank sources
+      // Step 3: Filter and rank sources, starting from the quality and search-rank order
       checkCancellation();
+      allScrapedContent = this.sortByRank(allScrapedContent);
       onProgress({ stage: 'evaluating', message: 'Ranking sources by relevance...', progress: 85 });
-      const rankedContent = await this.filterAndRank(query, allScrapedContent);
+      let rankedContent: ScrapedContent[];
+      try {
+        rankedContent = await this.filterAndRank(query, allScrapedContent);
+      } catch (error) {
+        // Over budget: skip ranking and keep the rank order
+        if (!this.handleBudgetExceeded(error, 'skipped-rounds')) {
+          throw error;
+        }
+        rankedContent = allScrapedContent;
+      }
 
       // Step 4: Generate final report
       checkCancellation();
@@ -185,12 +293,23 @@ export class Pipeline {
           sourcesScraped: allScrapedContent.length,
           totalDuration,
           rounds: currentRound,
-          costs
+          costs,
+          parseEvents: this.getParseEvents(),
+          budget: this.budget.getStatus(),
+          searchCacheHits: this.getSearchCacheHits(),
+          filteredSources: this.getFilteredSources(),
+          skippedSources: this.getSkippedSources(allScrapedContent),
+          sourceQueries: this.getSourceQueries(allScrapedContent)
         }
       };
 
     } catch (error: any) {
       partialError = error.message || 'Unknown error';
+
+      if (error instanceof BudgetExceededError) {
+        this.budget.recordAction('stopped', error.message);
+      }
+
       console.error(ConsoleFormatter.warning(`Research error: ${partialError}`));
 
       // If we have partial results and user allows it, return what we have
@@ -200,11 +319,17 @@ export class Pipeline {
         // Try to generate a report from what we have
         let report = '';
         try {
+          // Regenerating a report that already streamed would put two reports in one stream
+          if (this.reportChunksSent) {
+            throw new Error('Report stream was interrupted');
+          }
           const rankedContent = allScrapedContent.slice(0, 10);
           report = await this.generateReport(query, rankedContent);
         } catch (reportError) {
           // If even report generation fails, create a basic summary
           report = this.createBasicSummary(query, allScrapedContent);
+          // Streaming consumers get it too, set off from any cut-off report text
+          this.onReportChunk?.(this.reportChunksSent ? `\n\n---\n\n${report}` : report);
         }
 
         const totalDuration = Date.now() - startTime;
@@ -219,7 +344,13 @@ export class Pipeline {
             rounds: currentRound,
             costs,
             partial: true,
-            error: partialError
+            error: partialError,
+            parseEvents: this.getParseEvents(),
+            budget: this.budget.getStatus(),
+            searchCacheHits: this.getSearchCacheHits(),
+            filteredSources: this.getFilteredSources(),
+            skippedSources: this.getSkippedSources(allScrapedContent),
+            sourceQueries: this.getSourceQueries(allScrapedContent)
           }
         };
       }
@@ -230,51 +361,32 @@ export class Pipeline {
   }
 
   private async planQueries(query: string): Promise<PlanningResponse> {
-    const prompt = PROMPTS.planning();
+    const prompt = PROMPTS.planning(this.currentDate);
     const fullPrompt = `${prompt}\n\nRESEARCH QUERY: ${query}`;
 
-    const model = this.getModelForAgent('planner');
-    const response = await this.generateWithCache('planning', model, fullPrompt);
-
-    try {
-      return JSON.parse(response) as PlanningResponse;
-    } catch (error) {
-      // Fallback: extract queries manually
-      console.warn('Failed to parse planning response, using fallback');
-      return {
+    return this.generateValidated<PlanningResponse>(
+      'planning',
+      'planner',
+      fullPrompt,
+      response => ResponseValidator.validatePlanning(response),
+      // Fallback: search the original query directly
+      () => ({
         analysis: 'Query analysis',
         queries: [{ query, purpose: 'Main search', priority: 1 }],
         synthesis_note: 'Direct search'
-      };
-    }
+      })
+    );
   }
 
-  private async executeSearches(queries: string[], limitPerQuery: number): Promise<SearchResult[]> {
-    const allResults: SearchResult[][] = [];
-
-    // Execute searches sequentially with delay to avoid rate limiting
-    for (let i = 0; i < queries.length; i++) {
-      const result = await this.search.search(queries[i], limitPerQuery);
-      allResults.push(result);
+  private async executeSearches(queries: PlannedQuery[], limitPerQuery: number): Promise<SearchResult[]> {
+    // Run concurrently; the search provider rate-limits each instance
+    const allResults = await Promise.all(queries.map(async ({ query, time_range }) => {
+      const params = time_range ? { ...this.searchParams, timeRange: time_range } : this.searchParams;
+      return { query, results: await this.search.search(query, limitPerQuery, params) };
+    }));
 
-      // Add delay between searches (except for last one)
-      if (i < queries.length - 1) {
-        await this.sleep(2000); // 2 second delay between searches
-      }
-    }
-
-    const uniqueResults = new Map<string, SearchResult>();
-    allResults.flat().forEach(result => {
-      if (!uniqueResults.has(result.url)) {
-        uniqueResults.set(result.url, result);
-      }
-    });
-
-    return Array.from(uniqueResults.values());
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    // Source policy applies before anything is scraped
+    return this.sourceFilter.apply(RankFusion.fuse(allResults));
   }
 
   private async scrapeResults(results: SearchResult[]): Promise<ScrapedContent[]> {
@@ -286,7 +398,8 @@ export class Pipeline {
         this.seenUrls.add(result.url);
       }
 
-      const cached = await this.cache.get(result.url);
+      // Local files are cheap to re-read and may have changed
+      const cached = isLocalUrl(result.url) ? null : await this.cache.get(result.url);
 
       if (cached) {
         const qualityScore = QualityScorer.scoreContent(result.title, result.url, cached);
@@ -296,7 +409,9 @@ export class Pipeline {
           content: cached,
           cached: true,
           qualityScore,
-          duplicate: isDuplicate
+          duplicate: isDuplicate,
+          fusedScore: result.fusedScore,
+          queries: result.queries
         });
       } else {
         // Will be scraped in batch below
@@ -310,7 +425,10 @@ export class Pipeline {
       }
     }
 
-    const uncachedResults = results.filter((_, i) => !scrapedContent[i].cached);
+    // Scrapers only need what to fetch; ranking data stays here
+    const uncachedResults = results
+      .filter((_, i) => !scrapedContent[i].cached)
+      .map(({ title, url, snippet }) => ({ title, url, snippet }));
     if (uncachedResults.length > 0) {
       const freshlyScraped = await this.scraper.scrapeMany(uncachedResults);
 
@@ -319,15 +437,21 @@ export class Pipeline {
       for (let i = 0; i < scrapedContent.length; i++) {
         if (!scrapedContent[i].cached) {
           const scraped = freshlyScraped[uncachedIndex];
-          const qualityScore = QualityScorer.scoreContent(scraped.title, scraped.url, scraped.content);
+          const qualityScore = QualityScorer.scoreContent(scraped.title, scraped.url, scraped.content, scraped.format);
 
           scrapedContent[i] = {
             ...scraped,
             qualityScore,
-            duplicate: scrapedContent[i].duplicate
+            duplicate: scrapedContent[i].duplicate,
+            fusedScore: results[i].fusedScore,
+            queries: results[i].queries
           };
 
-          await this.cache.set(scrapedContent[i].url, scrapedContent[i].content);
+          // The cache keeps only the text: a snippet or robots.txt skip would lose its strategy
+          // and disallowedBy on the next run, so those are scraped again instead
+          if (!isLocalUrl(scraped.url) && scraped.strategy !== 'snippet' && !scraped.disallowedBy) {
+            await this.cache.set(scraped.url, scraped.content);
+          }
           uncachedIndex++;
         }
       }
@@ -340,138 +464,443 @@ export class Pipeline {
       console.log(ConsoleFormatter.stat(`Scraped ${scrapedContent.length} sources (${duplicateCount} duplicates, avg quality: ${avgQuality.toFixed(0)}%)`));
     }
 
-    // Sort by quality score (descending) - highest quality sources first
-    return scrapedContent.sort((a, b) => (b.qualityScore || 0) - (a.qualityScore || 0));
+    return this.sortByRank(scrapedContent);
+  }
+
+  /**
+   * Boosted domains first, then by quality and search rank, weighted equally
+   * (quality as a fraction of 100, fused score as a fraction of the best in the list)
+   */
+  private sortByRank(content: ScrapedContent[]): ScrapedContent[] {
+    const maxFused = Math.max(0, ...content.map(item => item.fusedScore ?? 0));
+    const score = (item: ScrapedContent) =>
+      (item.qualityScore ?? 0) / 100 + (maxFused > 0 ? (item.fusedScore ?? 0) / maxFused : 0);
+    const boosted = (item: ScrapedContent) => (this.sourceFilter.isBoosted(item.url) ? 1 : 0);
+
+    return content.sort((a, b) => boosted(b) - boosted(a) || score(b) - score(a));
   }
 
   private async summarizeContent(query: string, content: ScrapedContent[]): Promise<string[]> {
     const summaries: string[] = [];
 
     for (const item of content) {
-      const prompt = PROMPTS.summarizer();
-      const fullPrompt = `${prompt}\n\nRESEARCH TOPIC: ${query}\n\nSOURCE CONTENT:\n${item.content.slice(0, 8000)}`; // Limit content size
-
-      const model = this.getModelForAgent('summarizer');
-      const response = await this.generateWithCache(`summarize-${item.url}`, model, fullPrompt);
-
-      try {
-        const summary = JSON.parse(response) as SummaryResponse;
-        summaries.push(`[${item.title}](${item.url})\n${summary.summary}\nKey takeaway: ${summary.key_takeaway}\n`);
-      } catch (error) {
+      const prompt = PROMPTS.summarizer(this.currentDate);
+      const header = `${prompt}\n\nRESEARCH TOPIC: ${query}\n\nSOURCE CONTENT:\n`;
+
+      // Limit content to what fits the summarizer's context window
+      const maxChars = this.contextBudgeter.availableChars(
+        this.getModelChain('summarizer'),
+        header,
+        this.getGenerationParams('summarizer').maxTokens ?? PROJECTED_COMPLETION_TOKENS
+      );
+      const fullPrompt = `${header}${item.content.slice(0, maxChars)}`;
+
+      const summary = await this.generateValidated<SummaryResponse>(
+        `summarize-${item.url}`,
+        'summarizer',
+        fullPrompt,
+        response => ResponseValidator.validateSummary(response),
         // Fallback: use raw response
-        summaries.push(`[${item.title}](${item.url})\n${response}\n`);
-      }
+        response => ({ summary: response, key_takeaway: '', relevance: 'low' })
+      );
+
+      const takeaway = summary.key_takeaway ? `Key takeaway: ${summary.key_takeaway}\n` : '';
+      summaries.push(`[${item.title}](${item.url})\n${summary.summary}\n${takeaway}`);
     }
 
     return summaries;
   }
 
   private async evaluateGaps(query: string, summaries: string[]): Promise<EvaluationResponse> {
-    const prompt = PROMPTS.evaluator();
+    const prompt = PROMPTS.evaluator(this.currentDate);
     const summariesText = summaries.join('\n---\n');
     const fullPrompt = `${prompt}\n\nRESEARCH GOAL: ${query}\n\nSUMMARIES SO FAR:\n${summariesText}`;
 
-    const model = this.getModelForAgent('evaluator');
-    const response = await this.generateWithCache('evaluation', model, fullPrompt);
-
-    try {
-      return JSON.parse(response) as EvaluationResponse;
-    } catch (error) {
-      console.warn('Failed to parse evaluation response');
-      return {
+    return this.generateValidated<EvaluationResponse>(
+      'evaluation',
+      'evaluator',
+      fullPrompt,
+      response => ResponseValidator.validateEvaluation(response),
+      () => ({
         summary: 'Evaluation complete',
         gaps: [],
         follow_up_queries: [],
         goal_met: true
-      };
-    }
+      })
+    );
   }
 
   private async filterAndRank(query: string, content: ScrapedContent[]): Promise<ScrapedContent[]> {
-    const prompt = PROMPTS.filter();
+    const prompt = PROMPTS.filter(this.currentDate);
 
     const sourcesList = content
-      .map((item, i) => `${i}. [${item.title}](${item.url})\n   Snippet: ${item.content.slice(0, 200)}...`)
+      .map((item, i) => {
+        const foundBy = item.queries && item.queries.length > 1 ? `\n   Found by: ${item.queries.length} search queries` : '';
+        return `${i}. [${item.title}](${item.url})\n   Snippet: ${item.content.slice(0, 200)}...${foundBy}`;
+      })
       .join('\n');
 
     const fullPrompt = `${prompt}\n\nRESEARCH TOPIC: ${query}\n\nSOURCES:\n${sourcesList}`;
 
-    const model = this.getModelForAgent('filter');
-    const response = await this.generateWithCache('filter', model, fullPrompt);
+    const filtering = await this.generateValidated<FilteringResponse | null>(
+      'filter',
+      'filter',
+      fullPrompt,
+      response => ResponseValidator.validateFiltering(response, content.length),
+      () => null
+    );
 
-    try {
-      const filtering = JSON.parse(response) as FilteringResponse;
-
-      // Reorder content based on ranking
-      const ranked = filtering.ranked_sources
-        .filter(r => r.index < content.length)
-        .map(r => content[r.index]);
-
-      return ranked;
-    } catch (error) {
-      console.warn('Failed to parse filtering response, using original order');
+    if (!filtering) {
+      // Fallback: keep the rank order
       return content;
     }
+
+    // Reorder content based on ranking
+    return filtering.ranked_sources.map(r => content[r.index]);
   }
 
   private async generateReport(query: string, content: ScrapedContent[]): Promise<string> {
-    const prompt = PROMPTS.reporter();
+    const prompt = PROMPTS.reporter(this.currentDate);
+    const header = `${prompt}\n\nRESEARCH TOPIC: ${query}\n\nSOURCES (ranked by relevance):\n`;
+    const formatSource = (item: ScrapedContent, i: number, body: string) =>
+      `[${i + 1}] ${item.title}\nURL: ${item.url}\nContent:\n${body}\n`;
+
+    // Share the reporter's context window across sources, favouring higher-ranked ones
+    const budgetChars = this.contextBudgeter.availableChars(
+      this.getModelChain('reporter'),
+      header,
+      this.getGenerationParams('reporter').maxTokens ?? PROJECTED_COMPLETION_TOKENS
+    );
+    const overheadChars = Math.max(0, ...content.map((item, i) => formatSource(item, i, '').length + 5)); // + '\n---\n'
+    const allocation = this.contextBudgeter.allocate(content.map(item => item.content.length), budgetChars, overheadChars);
+
+    // Pair before dropping unallotted sources so each keeps its own allocation; number the rest in order
+    const sourcesList = content
+      .map((item, i) => ({ item, chars: allocation[i] }))
+      .filter(({ chars }) => chars > 0)
+      .map(({ item, chars }, i) => formatSource(item, i, item.content.slice(0, chars)))
+      .join('\n---\n');
 
-    // Limit content to avoid token limit (max ~50K characters per source, ~10 sources max)
-    const MAX_CONTENT_LENGTH = 50000; // ~12.5K tokens per source
-    const MAX_SOURCES = 10;
+    const fullPrompt = `${header}${sourcesList}`;
 
-    const limitedContent = content
-      .slice(0, MAX_SOURCES)
-      .map(item => ({
-        ...item,
-        content: item.content.slice(0, MAX_CONTENT_LENGTH)
-      }));
+    const { content: report } = await this.generateWithCache('report', 'reporter', fullPrompt, this.onReportChunk);
 
-    const sourcesList = limitedContent
-      .map((item, i) => `[${i + 1}] ${item.title}\nURL: ${item.url}\nContent:\n${item.content}\n`)
-      .join('\n---\n');
+    return report;
+  }
 
-    const fullPrompt = `${prompt}\n\nRESEARCH TOPIC: ${query}\n\nSOURCES (ranked by relevance):\n${sourcesList}`;
+  /**
+   * Pick a model whose projected cost fits the remaining budget, downgrading
+   * tiers if allowed. Throws BudgetExceededError when nothing fits.
+   */
+  private selectModelWithinBudget(step: string, agentType: AgentType, model: string, prompt: string): string {
+    const promptTokens = this.llm.estimateTokens(prompt);
+    const completionTokens = this.getGenerationParams(agentType).maxTokens ?? PROJECTED_COMPLETION_TOKENS;
+    const reason = this.budget.check(model, promptTokens, completionTokens);
 
-    const model = this.getModelForAgent('reporter');
-    const response = await this.generateWithCache('report', model, fullPrompt);
+    if (!reason) {
+      return model;
+    }
 
-    return response;
+    if (this.budgetAction === 'downgrade') {
+      const tier = this.modelConfig.tiers?.[agentType] || DEFAULT_AGENT_TIERS[agentType];
+
+      for (const cheaperTier of TIER_DOWNGRADES[tier]) {
+        for (const cheaperModel of this.getModelsForTier(cheaperTier)) {
+          if (cheaperModel === model) continue;
+
+          if (!this.budget.check(cheaperModel, promptTokens, completionTokens)) {
+            console.log(ConsoleFormatter.warning(`Budget: downgrading ${step} from ${model} to ${cheaperModel}`));
+            this.budget.recordDowngrade(step, model, cheaperModel, reason);
+            return cheaperModel;
+          }
+        }
+      }
+    }
+
+    throw new BudgetExceededError(`Budget exceeded at ${step}: ${reason}`, { step, model });
   }
 
-  private getModelForAgent(agentType: AgentType): string {
+  /**
+   * Record a budget overrun that the pipeline can recover from
+   *
+   * @returns false if the error is not a budget error or the run should stop
+   */
+  private handleBudgetExceeded(error: unknown, action: NonNullable<BudgetStatus['action']>): boolean {
+    if (!(error instanceof BudgetExceededError) || this.budgetAction === 'stop') {
+      return false;
+    }
+
+    console.log(ConsoleFormatter.warning(`${error.message} - continuing with collected sources`));
+    this.budget.recordAction(action, error.message);
+    return true;
+  }
+
+  private getModelsForTier(tier: ModelTier): string[] {
+    return this.toModelChain(this.modelConfig.tierModels?.[tier]) ?? [DEFAULT_MODELS[tier]];
+  }
+
+  /**
+   * Resolve the ordered fallback chain of models for an agent
+   */
+  private getModelChain(agentType: AgentType): string[] {
     // Check custom models first
-    if (this.modelConfig.customModels?.[agentType]) {
-      return this.modelConfig.customModels[agentType]!;
+    const custom = this.toModelChain(this.modelConfig.customModels?.[agentType]);
+    if (custom) {
+      return custom;
     }
 
     // Get tier for agent
     const tier = this.modelConfig.tiers?.[agentType] || DEFAULT_AGENT_TIERS[agentType];
 
-    // Check custom tier mappings
-    if (this.modelConfig.tierModels?.[tier]) {
-      return this.modelConfig.tierModels[tier]!;
+    // Check custom tier mappings, then the default mapping
+    return this.getModelsForTier(tier);
+  }
+
+  private getGenerationParams(agentType: AgentType): GenerationParams {
+    return {
+      ...DEFAULT_AGENT_GENERATION[agentType],
+      ...this.modelConfig.generation?.[agentType]
+    };
+  }
+
+  private toModelChain(choice: ModelChoice | undefined): string[] | undefined {
+    const models = (Array.isArray(choice) ? choice : [choice]).filter((m): m is string => !!m);
+    return models.length > 0 ? models : undefined;
+  }
+
+  /**
+   * Generate a JSON response and validate it, re-prompting the model with the
+   * validation error up to `maxRepairAttempts` times before using the fallback
+   */
+  private async generateValidated<T>(
+    step: string,
+    agentType: AgentType,
+    prompt: string,
+    validate: (response: string) => ValidationResult<NonNullable<T>>,
+    fallback: (lastResponse: string) => T
+  ): Promise<T> {
+    const chain = this.getModelChain(agentType);
+    let chainIndex = 0;
+    let response = '';
+
+    // A model that can't produce valid JSON after repairs hands over to the next in the chain
+    while (chainIndex < chain.length) {
+      let currentPrompt = prompt;
+      let model = chain[chainIndex];
+
+      for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+        const attemptStep = attempt === 0 ? step : `${step}-repair-${attempt}`;
+        // Cached only once valid: a bad reply must not be replayed on the next run
+        const call = await this.generateWithCache(attemptStep, agentType, currentPrompt, undefined, chainIndex, false);
+        response = call.content;
+        model = call.model;
+        chainIndex = call.chainIndex;
+
+        const result = validate(response);
+
+        if (result.success) {
+          // Under the step's own prompt, so the next run gets the repaired reply without the failed attempt
+          if (!call.cached || currentPrompt !== prompt) {
+            await this.cache.cacheLLM(prompt, model, response, this.getGenerationParams(agentType));
+          }
+          if (attempt > 0) {
+            this.parseEvents.push({ step, attempt, outcome: 'repaired', model });
+          }
+          return result.data;
+        }
+
+        this.parseEvents.push({ step, attempt, outcome: 'failed', model, error: result.error });
+        currentPrompt = this.buildRepairPrompt(agentType, prompt, response, result.error);
+      }
+
+      chainIndex++;
+      if (chainIndex < chain.length) {
+        console.log(ConsoleFormatter.warning(`Invalid ${step} response from ${model}, falling back to ${chain[chainIndex]}`));
+      }
+    }
+
+    console.warn(ConsoleFormatter.warning(`Invalid ${step} response after ${this.maxRepairAttempts} repair attempts, using fallback`));
+    this.parseEvents.push({ step, attempt: this.maxRepairAttempts, outcome: 'fallback' });
+    return fallback(response);
+  }
+
+  /**
+   * The repair prompt, with the echoed response cut so the prompt still fits the smallest window in the chain
+   */
+  private buildRepairPrompt(agentType: AgentType, prompt: string, response: string, error: string): string {
+    const marker = '\n[... truncated]';
+    const room = this.contextBudgeter.availableChars(
+      this.getModelChain(agentType),
+      repairPrompt(prompt, marker, error),
+      this.getGenerationParams(agentType).maxTokens ?? PROJECTED_COMPLETION_TOKENS
+    );
+    const echoed = response.length > room ? `${response.slice(0, room)}${marker}` : response;
+
+    return repairPrompt(prompt, echoed, error);
+  }
+
+  private getParseEvents(): ParseEvent[] | undefined {
+    return this.parseEvents.length > 0 ? [...this.parseEvents] : undefined;
+  }
+
+  private getFilteredSources(): FilteredSource[] | undefined {
+    const filtered = this.sourceFilter.getFiltered();
+    return filtered.length > 0 ? filtered : undefined;
+  }
+
+  private getSkippedSources(content: ScrapedContent[]): SkippedSource[] | undefined {
+    const skipped = new Map<string, SkippedSource>();
+
+    for (const item of content) {
+      if (item.disallowedBy && !skipped.has(item.url)) {
+        skipped.set(item.url, { url: item.url, reason: 'robots-txt', rule: item.disallowedBy });
+      }
+    }
+
+    return skipped.size > 0 ? Array.from(skipped.values()) : undefined;
+  }
+
+  // Merged over rounds: a URL found again in a later round adds that round's queries
+  private getSourceQueries(content: ScrapedContent[]): Record<string, string[]> | undefined {
+    const sourceQueries: Record<string, string[]> = {};
+
+    for (const item of content) {
+      if (!item.queries?.length) continue;
+      sourceQueries[item.url] = Array.from(new Set([...(sourceQueries[item.url] ?? []), ...item.queries]));
+    }
+
+    return Object.keys(sourceQueries).length > 0 ? sourceQueries : undefined;
+  }
+
+  // Undefined when the search provider doesn't cache
+  private getSearchCacheHits(): number | undefined {
+    const hits = this.search.getSearchCacheHits?.();
+    return hits === undefined ? undefined : hits - this.searchCacheHitsAtStart;
+  }
+
+  /**
+   * Generate with the agent's model chain, moving to the next model when one
+   * fails or returns an empty response
+   *
+   * @param chainStart - Index in the chain to start from
+   * @param cacheResponse - false when the caller caches the response itself after checking it
+   */
+  private async generateWithCache(
+    step: string,
+    agentType: AgentType,
+    prompt: string,
+    onChunk?: LLMStreamCallback,
+    chainStart: number = 0,
+    cacheResponse: boolean = true
+  ): Promise<LLMCallResult> {
+    const chain = this.getModelChain(agentType);
+    let lastError: unknown;
+    let emitted = false;
+
+    const trackedOnChunk = onChunk && ((chunk: string) => {
+      emitted = true;
+      onChunk(chunk);
+    });
+
+    for (let i = chainStart; i < chain.length; i++) {
+      try {
+        const { content, model, cached } = await this.generateWithModel(
+          step,
+          agentType,
+          chain[i],
+          prompt,
+          trackedOnChunk,
+          i > 0 ? chain[0] : undefined,
+          cacheResponse
+        );
+        return { content, model, chainIndex: i, cached };
+      } catch (error: any) {
+        // Budget overruns and cassette misses aren't model failures, and streamed tokens can't be taken back
+        if (error instanceof BudgetExceededError || error instanceof CassetteMismatchError || emitted) {
+          throw error;
+        }
+
+        lastError = error;
+        if (i < chain.length - 1) {
+          console.log(ConsoleFormatter.warning(`${step}: ${chain[i]} failed (${error.message}), falling back to ${chain[i + 1]}`));
+        }
+      }
     }
 
-    // Use default mapping
-    return DEFAULT_MODELS[tier];
+    throw lastError;
   }
 
-  private async generateWithCache(step: string, model: string, prompt: string): Promise<string> {
-    const cached = await this.cache.getCachedLLM(prompt, model);
+  private async generateWithModel(
+    step: string,
+    agentType: AgentType,
+    preferredModel: string,
+    prompt: string,
+    onChunk?: LLMStreamCallback,
+    fallbackFrom?: string,
+    cacheResponse: boolean = true
+  ): Promise<{ content: string; model: string; cached: boolean }> {
+    const params = this.getGenerationParams(agentType);
+
+    let model = preferredModel;
+    let cached = await this.cache.getCachedLLM(prompt, model, params);
+
+    if (!cached) {
+      model = this.selectModelWithinBudget(step, agentType, preferredModel, prompt);
+      // Responses are cached under the model that wrote them, so a downgraded step is looked up again
+      if (model !== preferredModel) {
+        cached = await this.cache.getCachedLLM(prompt, model, params);
+      }
+    }
+
     if (cached) {
-      return cached;
+      this.costEstimator.logCacheHit(step, model, fallbackFrom);
+      onChunk?.(cached);
+      return { content: cached, model, cached: true };
     }
 
-    const promptTokens = this.llm.estimateTokens(prompt);
-    const response = await this.llm.generate(prompt, { model });
-    const completionTokens = this.llm.estimateTokens(response);
+    const { content: response, usage } = await this.generate(prompt, { ...params, model, agentType }, onChunk);
 
-    this.costEstimator.logUsage(step, model, promptTokens, completionTokens);
-    await this.cache.cacheLLM(prompt, model, response);
+    if (!response.trim()) {
+      throw new Error('Empty response from LLM');
+    }
+
+    if (usage) {
+      this.costEstimator.logUsage(step, model, usage.promptTokens, usage.completionTokens, {
+        measured: true,
+        cost: usage.cost,
+        fallbackFrom
+      });
+    } else {
+      // Backend didn't report usage: fall back to ~4 chars per token
+      const promptTokens = this.llm.estimateTokens(prompt);
+      const completionTokens = this.llm.estimateTokens(response);
+      this.costEstimator.logUsage(step, model, promptTokens, completionTokens, { fallbackFrom });
+    }
+
+    if (cacheResponse) {
+      await this.cache.cacheLLM(prompt, model, response, params);
+    }
+
+    return { content: response, model, cached: false };
+  }
+
+  private async generate(
+    prompt: string,
+    options: LLMGenerateOptions,
+    onChunk?: LLMStreamCallback
+  ): Promise<LLMGenerateResult> {
+    if (!onChunk) {
+      return this.llm.generate(prompt, options);
+    }
+
+    if (this.llm.generateStream) {
+      return this.llm.generateStream(prompt, options, onChunk);
+    }
 
-    return response;
+    // Provider can't stream: deliver the whole completion as a single chunk
+    const result = await this.llm.generate(prompt, options);
+    onChunk(result.content);
+    return result;
   }
 
   private createBasicSummary(query: string, content: ScrapedContent[]): string {
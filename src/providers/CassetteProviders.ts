@@ -0,0 +1,122 @@
+import type {
+  LLMProvider as ILLMProvider,
+  SearchProvider as ISearchProvider,
+  ScraperProvider as IScraperProvider,
+  LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStreamCallback,
+  ModelInfo,
+  InstanceHealth,
+  ScrapedContent,
+  SearchParams,
+  SearchResult
+} from '../types/index.js';
+import type { Cassette } from '../utils/Cassette.js';
+
+// Recorded streaming responses keep their chunks so replay streams the same way
+interface RecordedGeneration extends LLMGenerateResult {
+  chunks?: string[];
+}
+
+/**
+ * Wraps an LLM provider so every generation is recorded to, or replayed from, a cassette
+ *
+ * Streaming and non-streaming calls share a fingerprint, so either can replay the other.
+ */
+export class CassetteLLMProvider implements ILLMProvider {
+  private inner: ILLMProvider;
+  private cassette: Cassette;
+
+  constructor(inner: ILLMProvider, cassette: Cassette) {
+    this.inner = inner;
+    this.cassette = cassette;
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<LLMGenerateResult> {
+    const recorded = await this.cassette.call<RecordedGeneration>(
+      'llm',
+      { prompt, options },
+      () => this.inner.generate(prompt, options)
+    );
+
+    return { content: recorded.content, usage: recorded.usage };
+  }
+
+  async generateStream(
+    prompt: string,
+    options: LLMGenerateOptions,
+    onChunk: LLMStreamCallback
+  ): Promise<LLMGenerateResult> {
+    const recorded = await this.cassette.call<RecordedGeneration>('llm', { prompt, options }, async () => {
+      const chunks: string[] = [];
+      const forward = (chunk: string) => {
+        chunks.push(chunk);
+        onChunk(chunk);
+      };
+
+      const result = this.inner.generateStream
+        ? await this.inner.generateStream(prompt, options, forward)
+        : await this.inner.generate(prompt, options).then(result => {
+          forward(result.content);
+          return result;
+        });
+
+      return { ...result, chunks };
+    });
+
+    // When recording, chunks were already delivered live
+    if (this.cassette.mode === 'replay') {
+      (recorded.chunks ?? [recorded.content]).forEach(chunk => onChunk(chunk));
+    }
+
+    return { content: recorded.content, usage: recorded.usage };
+  }
+
+  estimateTokens(text: string): number {
+    return this.inner.estimateTokens(text);
+  }
+
+  getModelInfo(modelId: string): ModelInfo {
+    return this.inner.getModelInfo(modelId);
+  }
+}
+
+export class CassetteSearchProvider implements ISearchProvider {
+  private inner: ISearchProvider;
+  private cassette: Cassette;
+
+  constructor(inner: ISearchProvider, cassette: Cassette) {
+    this.inner = inner;
+    this.cassette = cassette;
+  }
+
+  async search(query: string, limit?: number, params?: SearchParams): Promise<SearchResult[]> {
+    return this.cassette.call('search', { query, limit, params }, () => this.inner.search(query, limit, params));
+  }
+
+  getInstanceHealth(): InstanceHealth[] {
+    return this.inner.getInstanceHealth?.() ?? [];
+  }
+
+  getSearchCacheHits(): number {
+    return this.inner.getSearchCacheHits?.() ?? 0;
+  }
+}
+
+export class CassetteScraperProvider implements IScraperProvider {
+  private inner: IScraperProvider;
+  private cassette: Cassette;
+
+  constructor(inner: IScraperProvider, cassette: Cassette) {
+    this.inner = inner;
+    this.cassette = cassette;
+  }
+
+  async scrape(url: string): Promise<string> {
+    return this.cassette.call('scrape', { url }, () => this.inner.scrape(url));
+  }
+
+  async scrapeMany(results: SearchResult[]): Promise<ScrapedContent[]> {
+    return this.cassette.call('scrapeMany', { results }, () => this.inner.scrapeMany(results));
+  }
+}
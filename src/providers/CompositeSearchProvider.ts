@@ -0,0 +1,50 @@
+import type { SearchProvider as ISearchProvider, SearchResult, SearchParams, InstanceHealth } from '../types/index.js';
+import { ConsoleFormatter } from '../utils/ConsoleFormatter.js';
+
+/**
+ * Search several providers at once and interleave their results
+ *
+ * Used to mix the local corpus with web search. A failing provider is skipped
+ * as long as another one answers.
+ */
+export class CompositeSearchProvider implements ISearchProvider {
+  private providers: ISearchProvider[];
+
+  constructor(providers: ISearchProvider[]) {
+    this.providers = providers;
+  }
+
+  async search(query: string, limit: number = 10, params?: SearchParams): Promise<SearchResult[]> {
+    const settled = await Promise.allSettled(this.providers.map(provider => provider.search(query, limit, params)));
+    const lists = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+
+    if (lists.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    if (lists.length < settled.length) {
+      console.warn(ConsoleFormatter.warning(`Some search sources failed for "${query}"; using the rest`));
+    }
+
+    // Round-robin so each provider's top results keep a top position
+    const merged = new Map<string, SearchResult>();
+    const longest = Math.max(...lists.map(list => list.length));
+    for (let i = 0; i < longest; i++) {
+      for (const list of lists) {
+        if (i < list.length && !merged.has(list[i].url)) {
+          merged.set(list[i].url, list[i]);
+        }
+      }
+    }
+
+    return Array.from(merged.values()).slice(0, limit);
+  }
+
+  getInstanceHealth(): InstanceHealth[] {
+    return this.providers.flatMap(provider => provider.getInstanceHealth?.() ?? []);
+  }
+
+  getSearchCacheHits(): number {
+    return this.providers.reduce((sum, provider) => sum + (provider.getSearchCacheHits?.() ?? 0), 0);
+  }
+}
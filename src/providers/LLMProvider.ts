@@ -1,23 +1,37 @@
+import { StringDecoder } from 'string_decoder';
+import type { Readable } from 'stream';
 import axios, { AxiosInstance } from 'axios';
 import type {
   LLMProvider as ILLMProvider,
   LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStreamCallback,
+  LLMUsage,
+  LLMBackendConfig,
+  LLMBackendType,
   ModelInfo,
   LLMError
 } from '../types/index.js';
+import { PricingRegistry } from '../utils/PricingRegistry.js';
 
-// Model pricing per 1M tokens (prompt, completion)
-// Updated: 2025-12-09
-const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
-  'meta-llama/llama-3.1-8b-instruct': { prompt: 0.02, completion: 0.03 },
-  'google/gemini-2.5-flash-preview-09-2025': { prompt: 0.30, completion: 2.50 },
-  'deepseek/deepseek-chat': { prompt: 0.30, completion: 1.20 },
-  'deepseek/deepseek-chat-v3.1': { prompt: 0.15, completion: 0.75 },
-  'deepseek/deepseek-reasoner': { prompt: 0.55, completion: 2.19 },
-  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
-  'qwen/qwen-2.5-72b-instruct': { prompt: 0.35, completion: 0.40 },
-  // Fallback for old model IDs
-  'google/gemini-flash-1.5': { prompt: 0.30, completion: 2.50 }
+// Endpoint and header defaults for each supported backend.
+// All of them speak the OpenAI-compatible /chat/completions API.
+const LLM_BACKEND_DEFAULTS: Record<LLMBackendType, { baseUrl: string; headers: Record<string, string> }> = {
+  openrouter: {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    headers: {
+      'HTTP-Referer': 'https://github.com/research-agent',
+      'X-Title': 'Research Agent'
+    }
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    headers: {}
+  },
+  ollama: {
+    baseUrl: 'http://localhost:11434/v1',
+    headers: {}
+  }
 };
 
 interface OpenRouterResponse {
@@ -26,36 +40,163 @@ interface OpenRouterResponse {
       content: string;
     };
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: OpenRouterUsage;
+}
+
+interface OpenRouterStreamChunk {
+  choices: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  usage?: OpenRouterUsage;
+}
+
+interface OpenRouterUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost?: number; // Only present with OpenRouter usage accounting
 }
 
 export class LLMProvider implements ILLMProvider {
   private client: AxiosInstance;
-  private apiKey: string;
+  private backend: LLMBackendType;
+  private modelMap: Record<string, string>;
+  private pricing: PricingRegistry;
+
+  /**
+   * @param config - An OpenRouter API key, or a backend configuration for any
+   *   OpenAI-compatible endpoint (OpenAI, vLLM, llama.cpp server, Ollama)
+   * @param pricing - Pricing source, shared with cost tracking
+   */
+  constructor(config: string | LLMBackendConfig, pricing: PricingRegistry = new PricingRegistry()) {
+    const backendConfig: LLMBackendConfig = typeof config === 'string'
+      ? { type: 'openrouter', apiKey: config }
+      : config;
+
+    this.backend = backendConfig.type ?? 'openrouter';
+    this.modelMap = backendConfig.modelMap ?? {};
+    this.pricing = pricing;
+
+    const defaults = LLM_BACKEND_DEFAULTS[this.backend];
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...defaults.headers,
+      ...backendConfig.headers
+    };
+
+    if (backendConfig.apiKey) {
+      headers['Authorization'] = `Bearer ${backendConfig.apiKey}`;
+    }
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
     this.client = axios.create({
-      baseURL: 'https://openrouter.ai/api/v1',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://github.com/research-agent',
-        'X-Title': 'Research Agent'
-      },
-      timeout: 120000 // 2 minutes
+      baseURL: (backendConfig.baseUrl ?? defaults.baseUrl).replace(/\/+$/, ''),
+      headers,
+      timeout: backendConfig.timeout ?? 120000 // 2 minutes
+    });
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<LLMGenerateResult> {
+    const body = this.buildRequestBody(prompt, options);
+
+    return this.executeWithRetry(async () => {
+      const response = await this.client.post<OpenRouterResponse>('/chat/completions', body);
+
+      const content = response.data.choices[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('Empty response from LLM');
+      }
+
+      return {
+        content: content.trim(),
+        usage: this.parseUsage(response.data.usage)
+      };
     });
   }
 
-  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+  /**
+   * Generate a completion over server-sent events, emitting tokens as they arrive
+   *
+   * @param onChunk - Called with each content delta
+   * @returns The assembled completion
+   */
+  async generateStream(
+    prompt: string,
+    options: LLMGenerateOptions = {},
+    onChunk: LLMStreamCallback
+  ): Promise<LLMGenerateResult> {
+    const body = {
+      ...this.buildRequestBody(prompt, options),
+      stream: true,
+      stream_options: { include_usage: true } // Usage arrives in the final chunk
+    };
+    let emitted = false;
+
+    return this.executeWithRetry(async () => {
+      const response = await this.client.post<Readable>('/chat/completions', body, {
+        responseType: 'stream'
+      });
+
+      const decoder = new StringDecoder('utf8');
+      let buffer = '';
+      let content = '';
+      let usage: LLMUsage | undefined;
+
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+
+        // Skip blank lines and SSE comments (e.g. ": OPENROUTER PROCESSING")
+        if (!trimmed.startsWith('data:')) return;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const chunk = JSON.parse(payload) as OpenRouterStreamChunk;
+          const delta = chunk.choices?.[0]?.delta?.content;
+
+          if (chunk.usage) {
+            usage = this.parseUsage(chunk.usage);
+          }
+
+          if (delta) {
+            content += delta;
+            emitted = true;
+            onChunk(delta);
+          }
+        } catch {
+          // Ignore malformed keep-alive payloads
+        }
+      };
+
+      for await (const data of response.data) {
+        buffer += decoder.write(data);
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+
+      buffer += decoder.end();
+      if (buffer) handleLine(buffer);
+
+      if (!content) {
+        throw new Error('Empty response from LLM');
+      }
+
+      return { content: content.trim(), usage };
+    }, () => !emitted); // Once tokens have reached the caller a retry would duplicate them
+  }
+
+  private buildRequestBody(prompt: string, options: LLMGenerateOptions) {
     const {
       model = 'meta-llama/llama-3.1-8b-instruct',
       temperature = 0.7,
       maxTokens = 4096,
+      topP,
+      stop,
+      responseFormat,
       systemPrompt
     } = options;
 
@@ -73,29 +214,47 @@ export class LLMProvider implements ILLMProvider {
       content: prompt
     });
 
+    return {
+      model: this.resolveModel(model),
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(topP !== undefined ? { top_p: topP } : {}),
+      ...(stop && stop.length > 0 ? { stop } : {}),
+      ...(responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      // Ask OpenRouter to include the billed cost in the usage block
+      ...(this.backend === 'openrouter' ? { usage: { include: true } } : {})
+    };
+  }
+
+  private parseUsage(usage?: OpenRouterUsage): LLMUsage | undefined {
+    if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens,
+      cost: typeof usage.cost === 'number' ? usage.cost : undefined
+    };
+  }
+
+  private async executeWithRetry<T>(request: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
     let lastError: Error | null = null;
     const maxRetries = 3;
     const baseDelay = 100;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const response = await this.client.post<OpenRouterResponse>('/chat/completions', {
-          model,
-          messages,
-          temperature,
-          max_tokens: maxTokens
-        });
-
-        const content = response.data.choices[0]?.message?.content;
-
-        if (!content) {
-          throw new Error('Empty response from LLM');
-        }
-
-        return content.trim();
+        return await request();
       } catch (error: any) {
         lastError = error;
 
+        if (!canRetry()) {
+          break;
+        }
+
         // Handle rate limiting
         if (error.response?.status === 429) {
           const retryAfter = error.response.headers['retry-after'];
@@ -138,24 +297,30 @@ export class LLMProvider implements ILLMProvider {
     } as LLMError;
   }
 
+  /**
+   * Get the backend this provider talks to
+   */
+  getBackend(): LLMBackendType {
+    return this.backend;
+  }
+
+  /**
+   * Translate a pipeline model ID into the name the backend expects
+   */
+  resolveModel(modelId: string): string {
+    return this.modelMap[modelId] ?? modelId;
+  }
+
   estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
   }
 
   getModelInfo(modelId: string): ModelInfo {
-    const pricing = MODEL_PRICING[modelId] || { prompt: 0, completion: 0 };
-
-    return {
-      id: modelId,
-      pricing
-    };
+    return this.pricing.getModelInfo(modelId);
   }
 
   calculateCost(modelId: string, promptTokens: number, completionTokens: number): number {
-    const info = this.getModelInfo(modelId);
-    const promptCost = (promptTokens / 1_000_000) * info.pricing.prompt;
-    const completionCost = (completionTokens / 1_000_000) * info.pricing.completion;
-    return promptCost + completionCost;
+    return this.pricing.calculateCost(modelId, promptTokens, completionTokens);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,175 @@
+import Database from 'better-sqlite3';
+import { existsSync, readdirSync, statSync } from 'fs';
+import type { Dirent } from 'fs';
+import { extname, resolve, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { SearchProvider as ISearchProvider, SearchResult, SearchParams, LocalCorpusConfig } from '../types/index.js';
+import { readLocalDocument, DEFAULT_CORPUS_EXTENSIONS } from '../utils/LocalDocuments.js';
+import { ConsoleFormatter } from '../utils/ConsoleFormatter.js';
+
+// Directories never worth indexing
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+export interface CorpusIndexStats {
+  indexed: number; // New or changed files
+  removed: number; // Files no longer on disk
+  total: number;
+}
+
+/**
+ * Full-text search over local markdown, text and HTML files (SQLite FTS5)
+ *
+ * The directories are indexed on the first search; unchanged files are skipped
+ * on later `index()` calls. Results carry file:// URLs.
+ */
+export class LocalCorpusProvider implements ISearchProvider {
+  private db: Database.Database;
+  private directories: string[];
+  private extensions: Set<string>;
+  private maxFileSize: number;
+  private indexed = false;
+
+  constructor(config: LocalCorpusConfig, indexPath: string = ':memory:') {
+    this.directories = config.directories.map(directory => resolve(directory));
+    this.extensions = new Set((config.extensions ?? DEFAULT_CORPUS_EXTENSIONS).map(ext => ext.toLowerCase()));
+    this.maxFileSize = config.maxFileSize ?? 5 * 1024 * 1024;
+
+    this.db = new Database(indexPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS corpus_files (
+        path TEXT PRIMARY KEY,
+        mtime_ms INTEGER NOT NULL,
+        size INTEGER NOT NULL
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS corpus_fts USING fts5(
+        path UNINDEXED,
+        title,
+        content,
+        tokenize = 'porter unicode61'
+      );
+    `);
+  }
+
+  async search(query: string, limit: number = 10, _params?: SearchParams): Promise<SearchResult[]> {
+    if (!this.indexed) {
+      this.index();
+    }
+
+    const match = this.toMatchQuery(query);
+    if (!match) return [];
+
+    // Title matches weigh more than body matches; bm25 is lower-is-better
+    const rows = this.db
+      .prepare(`
+        SELECT path, title, snippet(corpus_fts, 2, '', '', '…', 32) AS snippet
+        FROM corpus_fts
+        WHERE corpus_fts MATCH ?
+        ORDER BY bm25(corpus_fts, 0.0, 5.0, 1.0)
+        LIMIT ?
+      `)
+      .all(match, limit) as Array<{ path: string; title: string; snippet: string }>;
+
+    return rows.map(row => ({
+      title: row.title,
+      url: pathToFileURL(row.path).href,
+      snippet: row.snippet.replace(/\s+/g, ' ').trim()
+    }));
+  }
+
+  /**
+   * Bring the index up to date with the directories
+   */
+  index(): CorpusIndexStats {
+    const known = new Map(
+      (this.db.prepare('SELECT path, mtime_ms, size FROM corpus_files').all() as Array<{ path: string; mtime_ms: number; size: number }>)
+        .map(row => [row.path, row])
+    );
+    const seen = new Set<string>();
+    let indexed = 0;
+
+    const upsertFile = this.db.prepare('INSERT OR REPLACE INTO corpus_files (path, mtime_ms, size) VALUES (?, ?, ?)');
+    const deleteText = this.db.prepare('DELETE FROM corpus_fts WHERE path = ?');
+    const insertText = this.db.prepare('INSERT INTO corpus_fts (path, title, content) VALUES (?, ?, ?)');
+    const deleteFile = this.db.prepare('DELETE FROM corpus_files WHERE path = ?');
+
+    this.db.transaction(() => {
+      for (const path of this.listFiles()) {
+        // A file can vanish or become unreadable between listing and stat; skip it rather than abort the run
+        try {
+          const stats = statSync(path);
+          if (stats.size > this.maxFileSize) continue;
+
+          seen.add(path);
+          const mtime = Math.floor(stats.mtimeMs);
+          const previous = known.get(path);
+          if (previous && previous.mtime_ms === mtime && previous.size === stats.size) continue;
+
+          const document = readLocalDocument(path);
+          deleteText.run(path);
+          insertText.run(path, document.title, document.content);
+          upsertFile.run(path, mtime, stats.size);
+          indexed++;
+        } catch (error: any) {
+          console.warn(ConsoleFormatter.warning(`Could not index ${path}: ${error.message}`));
+        }
+      }
+
+      for (const path of known.keys()) {
+        if (!seen.has(path)) {
+          deleteText.run(path);
+          deleteFile.run(path);
+        }
+      }
+    })();
+
+    this.indexed = true;
+    const removed = Array.from(known.keys()).filter(path => !seen.has(path)).length;
+
+    return { indexed, removed, total: seen.size };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private *listFiles(): Generator<string> {
+    for (const directory of this.directories) {
+      if (!existsSync(directory)) {
+        console.warn(ConsoleFormatter.warning(`Local corpus directory not found: ${directory}`));
+        continue;
+      }
+      yield* this.walk(directory);
+    }
+  }
+
+  private *walk(directory: string): Generator<string> {
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(directory, { withFileTypes: true });
+    } catch (error: any) {
+      // An unreadable folder is skipped like an unreadable file, not allowed to abort the run
+      console.warn(ConsoleFormatter.warning(`Could not read ${directory}: ${error.message}`));
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          yield* this.walk(path);
+        }
+      } else if (entry.isFile() && this.extensions.has(extname(entry.name).toLowerCase())) {
+        yield path;
+      }
+    }
+  }
+
+  // Quote each word so FTS5 syntax in the query (AND, NEAR, "-", ":") is taken literally
+  private toMatchQuery(query: string): string | null {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const terms = Array.from(new Set(words.filter(word => word.length > 1)));
+    return terms.length > 0 ? terms.map(term => `"${term}"`).join(' OR ') : null;
+  }
+}
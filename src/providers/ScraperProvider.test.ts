@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ScraperProvider } from './ScraperProvider.js';
+import type { DirectFetchMode } from '../types/index.js';
+
+const paragraph = 'This paragraph is long enough for the readability extractor to keep it as content. '.repeat(5);
+
+let server: Server;
+let base: string;
+let jinaRequests: string[];
+
+// One local server plays the site (with robots.txt) and a self-hosted Jina reader under /jina/
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url ?? '/';
+
+    if (path.startsWith('/jina/')) {
+      jinaRequests.push(path.slice('/jina/'.length));
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      return res.end('# Page from Jina');
+    }
+    if (path === '/robots.txt') {
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      return res.end('User-agent: *\nDisallow: /private');
+    }
+    if (path === '/moved') {
+      res.writeHead(302, { location: '/private/page' });
+      return res.end();
+    }
+
+    res.writeHead(200, { 'content-type': 'text/html' });
+    res.end(`<html><body><article><h1>Page</h1><p>${paragraph}</p></article></body></html>`);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  jinaRequests = [];
+});
+
+function scraper(directFetch: DirectFetchMode): ScraperProvider {
+  return new ScraperProvider(2, {
+    directFetch,
+    timeout: 5000,
+    allowPrivateNetworks: true,
+    jina: { baseUrl: `${base}/jina/` }
+  });
+}
+
+const result = (path: string) => ({ title: path, url: `${base}${path}`, snippet: `Snippet for ${path}` });
+
+describe('ScraperProvider robots.txt', () => {
+  for (const mode of ['primary', 'fallback'] as const) {
+    it(`never sends a disallowed URL to Jina (${mode})`, async () => {
+      const [scraped] = await scraper(mode).scrapeMany([result('/private/page')]);
+
+      expect(jinaRequests).toEqual([]);
+      expect(scraped).toMatchObject({
+        content: 'Snippet for /private/page',
+        strategy: 'snippet',
+        disallowedBy: 'Disallow: /private'
+      });
+    });
+  }
+
+  it('skips a page whose redirect lands on a disallowed path', async () => {
+    const [scraped] = await scraper('primary').scrapeMany([result('/moved')]);
+
+    expect(jinaRequests).toEqual([]);
+    expect(scraped).toMatchObject({ strategy: 'snippet', disallowedBy: 'Disallow: /private' });
+  });
+
+  it('fetches allowed pages as configured', async () => {
+    const [direct] = await scraper('primary').scrapeMany([result('/article')]);
+    const [viaJina] = await scraper('fallback').scrapeMany([result('/article')]);
+
+    expect(direct).toMatchObject({ strategy: 'direct' });
+    expect(direct.disallowedBy).toBeUndefined();
+    expect(viaJina).toMatchObject({ strategy: 'jina', content: '# Page from Jina' });
+    expect(jinaRequests).toEqual([`${base}/article`]);
+  });
+});
@@ -1,40 +1,317 @@
 import axios from 'axios';
-import type { ScraperProvider as IScraperProvider, ScrapedContent, SearchResult } from '../types/index.js';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { fileURLToPath } from 'url';
+import type {
+  ScraperProvider as IScraperProvider,
+  ScrapedContent,
+  SearchResult,
+  ScraperConfig,
+  JinaConfig,
+  DirectFetchMode,
+  ScrapeStrategy,
+  CacheProvider
+} from '../types/index.js';
 import { RateLimiter } from '../utils/RateLimiter.js';
+import { readLocalDocument, isWithinDirectories } from '../utils/LocalDocuments.js';
+import { DocumentExtractor } from '../utils/DocumentExtractor.js';
+import type { ExtractedDocument, ExtractionLimits } from '../utils/DocumentExtractor.js';
+import { RobotsTxt, DISALLOW_ALL } from '../utils/RobotsTxt.js';
+import { NetworkGuard } from '../utils/NetworkGuard.js';
 
 const JINA_BASE = 'https://r.jina.ai/';
+// Jina Reader requests per minute by tier
+const JINA_RATE_LIMITS = { anonymous: 20, authenticated: 500 };
+const DIRECT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const MAX_DIRECT_BYTES = 10 * 1024 * 1024;
+// Less than this after extraction usually means the page is rendered by JavaScript
+const MIN_DIRECT_CONTENT = 200;
+// Crawlers must read at least this much of a robots.txt (RFC 9309)
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+interface ScrapeOutcome extends Partial<ExtractedDocument> {
+  content: string;
+  strategy: ScrapeStrategy;
+}
 
 export class ScraperProvider implements IScraperProvider {
   private rateLimiter: RateLimiter;
+  private directLimiter: RateLimiter;
   private maxRetries: number = 3;
-  private timeout: number = 30000; // 30 seconds per scrape
+  private timeout: number;
+  private directFetch: DirectFetchMode;
+  private localDirectories: string[];
+  private jinaBase: string;
+  private jinaHeaders: Record<string, string>;
+  private jinaTimeout: number;
+  private maxContentLength: number;
+  private limits: ExtractionLimits;
+  private userAgent: string;
+  private respectRobotsTxt: boolean;
+  private maxCrawlDelay: number;
+  private allowPrivateNetworks: boolean;
+  private cache?: CacheProvider;
+  private robots = new Map<string, Promise<RobotsTxt>>(); // By origin, for this provider's lifetime
+
+  /**
+   * @param localDirectories - Directories file:// URLs may be read from (the local corpus)
+   * @param cache - Keeps robots.txt files between runs
+   */
+  constructor(maxConcurrent: number = 20, config: ScraperConfig = {}, localDirectories: string[] = [], cache?: CacheProvider) {
+    const jina = config.jina ?? {};
+    const requestsPerMinute = this.jinaRequestsPerMinute(jina);
 
-  constructor(maxConcurrent: number = 20) {
-    // Jina.ai free tier: 20 requests per second
-    this.rateLimiter = new RateLimiter(maxConcurrent, 50); // 50ms = 20/sec
+    this.rateLimiter = new RateLimiter(maxConcurrent, requestsPerMinute > 0 ? Math.ceil(60000 / requestsPerMinute) : 0);
+    // Direct fetches are limited per host instead; robots.txt Crawl-delays are added as they are read
+    this.directLimiter = new RateLimiter(maxConcurrent, 0, config.maxConcurrentPerHost ?? 2);
+    this.timeout = config.timeout ?? 30000; // 30 seconds per scrape
+    this.jinaBase = jina.baseUrl ? (jina.baseUrl.endsWith('/') ? jina.baseUrl : `${jina.baseUrl}/`) : JINA_BASE;
+    this.jinaHeaders = this.buildJinaHeaders(jina);
+    // Leave Jina time to report its own page-load timeout
+    this.jinaTimeout = jina.timeout !== undefined ? Math.max(this.timeout, (jina.timeout + 5) * 1000) : this.timeout;
+    this.directFetch = config.directFetch ?? 'fallback';
+    this.localDirectories = localDirectories;
+    this.maxContentLength = config.maxContentLength ?? 100000;
+    this.limits = { maxPdfPages: config.maxPdfPages ?? 50, maxCsvRows: config.maxCsvRows ?? 200 };
+    this.userAgent = config.userAgent ?? DIRECT_USER_AGENT;
+    this.respectRobotsTxt = config.respectRobotsTxt ?? true;
+    this.maxCrawlDelay = config.maxCrawlDelay ?? 30;
+    this.allowPrivateNetworks = config.allowPrivateNetworks ?? false;
+    this.cache = cache;
   }
 
   async scrape(url: string): Promise<string> {
-    return this.rateLimiter.add(() => this.executeScrape(url));
+    return (await this.scrapeWithStrategy(url)).content;
+  }
+
+  /**
+   * Try each strategy in the configured order until one returns content
+   */
+  private async scrapeWithStrategy(url: string): Promise<ScrapeOutcome> {
+    const outcome = await this.firstSuccessfulStrategy(url);
+
+    if (outcome.content.length > this.maxContentLength) {
+      return { ...outcome, content: outcome.content.slice(0, this.maxContentLength), truncated: true };
+    }
+    return outcome;
+  }
+
+  private async firstSuccessfulStrategy(url: string): Promise<ScrapeOutcome> {
+    if (url.startsWith('file:')) {
+      return { content: await this.readLocalFile(url), strategy: 'local' };
+    }
+
+    // Links to PDFs, CSVs etc. are read here even in 'fallback' mode: we know the format and page count
+    const strategies: ScrapeStrategy[] =
+      this.directFetch === 'disabled' ? ['jina'] :
+      this.directFetch === 'primary' || DocumentExtractor.formatFromUrl(url) ? ['direct', 'jina'] :
+      ['jina', 'direct'];
+    // A disallowed URL is skipped outright, not handed to Jina instead; the caller falls back to the snippet
+    if (strategies.includes('direct')) {
+      const disallowedBy = await this.robotsDisallow(url);
+      if (disallowedBy) {
+        throw this.disallowedError(`Skipped ${url}: disallowed by robots.txt (${disallowedBy})`, disallowedBy);
+      }
+    }
+
+    const errors: string[] = [];
+
+    for (const strategy of strategies) {
+      try {
+        if (strategy === 'jina') {
+          return { content: await this.rateLimiter.add(() => this.executeScrape(url)), strategy };
+        }
+        return { ...(await this.directLimiter.add(() => this.fetchDirect(url), new URL(url).host)), strategy };
+      } catch (error: any) {
+        // A redirect to a disallowed page: stop here too
+        if (error.disallowedBy) throw error;
+        errors.push(`${strategy}: ${error.message}`);
+      }
+    }
+
+    throw new Error(`Failed to scrape ${url} (${errors.join('; ')})`);
+  }
+
+  private disallowedError(message: string, disallowedBy: string): Error & { disallowedBy: string } {
+    return Object.assign(new Error(message), { disallowedBy });
+  }
+
+  /**
+   * The robots.txt rule that forbids fetching `url` ourselves, if any
+   */
+  private async robotsDisallow(url: string): Promise<string | undefined> {
+    if (!this.respectRobotsTxt) return undefined;
+
+    const { origin, host } = new URL(url);
+    let robots = this.robots.get(origin);
+    if (!robots) {
+      robots = this.loadRobots(origin, host);
+      this.robots.set(origin, robots);
+    }
+
+    return (await robots).disallowedBy(url);
+  }
+
+  private async loadRobots(origin: string, host: string): Promise<RobotsTxt> {
+    let text = (await this.cache?.getCachedRobots?.(origin)) ?? null;
+
+    if (text === null) {
+      try {
+        const response = await this.getFollowingRedirects<string>(`${origin}/robots.txt`, null, {
+          timeout: this.timeout,
+          responseType: 'text',
+          transformResponse: data => data,
+          maxContentLength: MAX_ROBOTS_BYTES,
+          headers: { 'User-Agent': this.userAgent },
+          validateStatus: () => true
+        });
+
+        if (response.status >= 500) {
+          // RFC 9309: a server error means crawling is not allowed; ask again next time
+          text = DISALLOW_ALL;
+          this.robots.delete(origin);
+        } else {
+          // A missing robots.txt (any 4xx) allows everything
+          text = response.status < 300 && typeof response.data === 'string' ? response.data : '';
+          await this.cache?.cacheRobots?.(origin, text);
+        }
+      } catch {
+        // Unreachable host: the page fetch will fail on its own
+        text = '';
+        this.robots.delete(origin);
+      }
+    }
+
+    const robots = new RobotsTxt(text, this.userAgent);
+    if (robots.crawlDelay !== undefined) {
+      this.directLimiter.setKeyInterval(host, Math.min(robots.crawlDelay, this.maxCrawlDelay) * 1000);
+    }
+
+    return robots;
+  }
+
+  /**
+   * Fetch the URL ourselves and extract its text according to the content type
+   */
+  private async fetchDirect(url: string): Promise<ExtractedDocument> {
+    const response = await this.getFollowingRedirects<ArrayBuffer>(url, this.checkRedirectRobots, {
+      timeout: this.timeout,
+      responseType: 'arraybuffer', // PDFs are binary; text is decoded by charset below
+      maxContentLength: MAX_DIRECT_BYTES,
+      headers: {
+        'User-Agent': this.userAgent,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,application/pdf;q=0.9,text/plain;q=0.8,application/json;q=0.8,text/csv;q=0.8,*/*;q=0.5',
+        'Accept-Language': 'en-US,en;q=0.9'
+      }
+    });
+
+    const body = new Uint8Array(response.data);
+    if (body.length === 0) {
+      throw new Error('Empty response');
+    }
+
+    const contentType = String(response.headers['content-type'] ?? '');
+    const format = DocumentExtractor.detectFormat(contentType, url, body);
+    if (!format) {
+      throw new Error(`Unsupported content type ${contentType || '(none)'}`);
+    }
+
+    const document = await DocumentExtractor.extract(body, format, contentType, this.limits);
+    // Only HTML can be short because it needs a browser; a short text file is just short
+    if (format === 'html' && document.content.length < MIN_DIRECT_CONTENT) {
+      throw new Error('No readable content (the page may need JavaScript)');
+    }
+    if (document.content.length === 0) {
+      throw new Error(`Empty ${format} document`);
+    }
+
+    return document;
+  }
+
+  /**
+   * GET that follows redirects itself, so every hop is checked before it is requested
+   */
+  private async getFollowingRedirects<T>(
+    url: string,
+    onRedirect: ((to: string) => Promise<void>) | null,
+    config: AxiosRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    const accepts = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    let current = url;
+
+    for (let redirects = 0; ; redirects++) {
+      if (!this.allowPrivateNetworks) {
+        await NetworkGuard.assertPublicUrl(current);
+      }
+
+      const response = await axios.get<T>(current, {
+        ...config,
+        maxRedirects: 0,
+        validateStatus: status => REDIRECT_STATUSES.has(status) || accepts(status)
+      });
+
+      if (!REDIRECT_STATUSES.has(response.status)) {
+        return response;
+      }
+
+      const location = response.headers['location'];
+      if (typeof location !== 'string') {
+        if (accepts(response.status)) return response;
+        throw new Error(`Redirect (${response.status}) without a Location header`);
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+
+      const next = new URL(location, current).href;
+      await onRedirect?.(next);
+      current = next;
+    }
+  }
+
+  // The robots.txt check before the fetch only covered the first URL; every redirect target needs its own
+  private checkRedirectRobots = async (to: string): Promise<void> => {
+    const disallowedBy = await this.robotsDisallow(to);
+    if (disallowedBy) {
+      throw this.disallowedError(`Skipped redirect to ${to}: disallowed by robots.txt (${disallowedBy})`, disallowedBy);
+    }
+  };
+
+  // Only corpus files: a web search result must not be able to point at arbitrary local paths
+  private async readLocalFile(url: string): Promise<string> {
+    const path = fileURLToPath(url);
+
+    if (!isWithinDirectories(path, this.localDirectories)) {
+      throw new Error(`Refusing to read ${url}: not inside a local corpus directory`);
+    }
+
+    return readLocalDocument(path).content;
   }
 
   async scrapeMany(results: SearchResult[]): Promise<ScrapedContent[]> {
     const scrapePromises = results.map(async (result) => {
       try {
-        const content = await this.scrape(result.url);
+        const { content, strategy, format, pageCount, truncated } = await this.scrapeWithStrategy(result.url);
         return {
           title: result.title,
           url: result.url,
           content,
-          cached: false
+          cached: false,
+          strategy,
+          format,
+          pageCount,
+          truncated
         };
-      } catch (error) {
+      } catch (error: any) {
         // Fallback to snippet if scraping fails
         return {
           title: result.title,
           url: result.url,
           content: result.snippet || 'Content unavailable',
-          cached: false
+          cached: false,
+          strategy: 'snippet' as const,
+          disallowedBy: error.disallowedBy as string | undefined
         };
       }
     });
@@ -47,12 +324,9 @@ export class ScraperProvider implements IScraperProvider {
 
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
       try {
-        const response = await axios.get(`${JINA_BASE}${url}`, {
-          timeout: this.timeout,
-          headers: {
-            'Accept': 'text/plain',
-            'X-Return-Format': 'markdown'
-          }
+        const response = await axios.get(`${this.jinaBase}${url}`, {
+          timeout: this.jinaTimeout,
+          headers: this.jinaHeaders
         });
 
         if (!response.data || typeof response.data !== 'string') {
@@ -67,6 +341,7 @@ export class ScraperProvider implements IScraperProvider {
         if (error.response?.status === 429) {
           const retryAfter = error.response.headers['retry-after'];
           const delay = retryAfter ? parseInt(retryAfter) * 1000 : 1000 * Math.pow(2, attempt);
+          this.rateLimiter.pauseFor(delay); // Hold back the queued scrapes too
 
           if (attempt < this.maxRetries - 1) {
             await this.sleep(delay);
@@ -99,13 +374,47 @@ export class ScraperProvider implements IScraperProvider {
       }
     }
 
-    throw new Error(`Failed to scrape ${url}: ${lastError?.message}`);
+    throw new Error(lastError?.message || 'Jina.ai request failed');
   }
 
   getStats() {
     return this.rateLimiter.getStats();
   }
 
+  private jinaRequestsPerMinute(jina: JinaConfig): number {
+    if (jina.requestsPerMinute !== undefined) return jina.requestsPerMinute;
+    if (jina.baseUrl && !ScraperProvider.isJinaHosted(jina.baseUrl)) return 0; // Self-hosted: no quota
+    return jina.apiKey ? JINA_RATE_LIMITS.authenticated : JINA_RATE_LIMITS.anonymous;
+  }
+
+  // By origin, so 'https://r.jina.ai' and 'https://R.jina.ai/' count as the hosted service too
+  private static isJinaHosted(baseUrl: string): boolean {
+    try {
+      return new URL(baseUrl).origin === new URL(JINA_BASE).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildJinaHeaders(jina: JinaConfig): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Accept': 'text/plain',
+      'X-Return-Format': 'markdown'
+    };
+    const list = (value: string | string[]) => (Array.isArray(value) ? value.join(', ') : value);
+
+    if (jina.apiKey) headers['Authorization'] = `Bearer ${jina.apiKey}`;
+    if (jina.targetSelector) headers['X-Target-Selector'] = list(jina.targetSelector);
+    if (jina.removeSelector) headers['X-Remove-Selector'] = list(jina.removeSelector);
+    if (jina.waitForSelector) headers['X-Wait-For-Selector'] = jina.waitForSelector;
+    if (jina.withImagesSummary) headers['X-With-Images-Summary'] = 'true';
+    if (jina.withLinksSummary) headers['X-With-Links-Summary'] = 'true';
+    if (jina.noCache) headers['X-No-Cache'] = 'true';
+    if (jina.timeout !== undefined) headers['X-Timeout'] = String(jina.timeout);
+
+    return { ...headers, ...jina.headers };
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
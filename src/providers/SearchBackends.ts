@@ -0,0 +1,211 @@
+import axios, { AxiosInstance } from 'axios';
+import type {
+  SearchBackend,
+  SearchBackendConfig,
+  SearchBackendFactory,
+  SearchResult,
+  JsonSearchMapping
+} from '../types/index.js';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const BACKEND_FACTORIES: Map<string, SearchBackendFactory> = new Map();
+
+/**
+ * Register an adapter for a search API, usable as `{ type }` in SearchConfig.backends
+ */
+export function registerSearchBackend(type: string, factory: SearchBackendFactory): void {
+  if (type === 'searxng') {
+    throw new Error('The searxng backend type is reserved for SearchConfig.instances');
+  }
+
+  BACKEND_FACTORIES.set(type, factory);
+}
+
+export function createSearchBackend(config: SearchBackendConfig, defaults: { timeout: number }): SearchBackend {
+  const factory = BACKEND_FACTORIES.get(config.type);
+
+  if (!factory) {
+    const known = Array.from(BACKEND_FACTORIES.keys()).join(', ');
+    throw new Error(`Unknown search backend type "${config.type}" (available: ${known})`);
+  }
+
+  return factory(config, defaults);
+}
+
+export function isSearchBackendRegistered(type: string): boolean {
+  return BACKEND_FACTORIES.has(type);
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * Shared HTTP plumbing for JSON search APIs
+ */
+abstract class HttpSearchBackend implements SearchBackend {
+  readonly name: string;
+  protected config: SearchBackendConfig;
+  protected client: AxiosInstance;
+
+  constructor(config: SearchBackendConfig, defaults: { timeout: number }, authHeaders: Record<string, string> = {}) {
+    this.name = config.name ?? config.type;
+    this.config = config;
+    this.client = axios.create({
+      timeout: config.timeout ?? defaults.timeout,
+      headers: {
+        'Accept': 'application/json',
+        ...authHeaders,
+        ...config.headers
+      }
+    });
+  }
+
+  abstract search(query: string, limit: number): Promise<SearchResult[]>;
+
+  protected get endpoint(): string {
+    if (!this.config.url) {
+      throw new Error(`Search backend "${this.name}" requires a url`);
+    }
+    return this.config.url;
+  }
+
+  protected toResults(items: any[] | undefined, limit: number, fields: { title: string; url: string; snippet?: string }): SearchResult[] {
+    if (!Array.isArray(items)) {
+      throw new Error(`Invalid response from ${this.name}: results is not an array`);
+    }
+
+    return items
+      .map(item => ({
+        title: stripHtml(String(getPath(item, fields.title) ?? '')),
+        url: String(getPath(item, fields.url) ?? ''),
+        snippet: fields.snippet ? optionalText(getPath(item, fields.snippet)) : undefined
+      }))
+      .filter(result => result.url.length > 0)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Brave Search API format: `web.results[].{title,url,description}`
+ */
+class BraveSearchBackend extends HttpSearchBackend {
+  constructor(config: SearchBackendConfig, defaults: { timeout: number }) {
+    super(
+      { ...config, url: config.url ?? 'https://api.search.brave.com/res/v1/web/search' },
+      defaults,
+      config.apiKey ? { 'X-Subscription-Token': config.apiKey } : {}
+    );
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const response = await this.client.get(this.endpoint, {
+      params: { q: query, count: Math.min(limit, 20), ...this.config.params }
+    });
+
+    return this.toResults(response.data?.web?.results ?? [], limit, { title: 'title', url: 'url', snippet: 'description' });
+  }
+}
+
+/**
+ * Bing Web Search API format: `webPages.value[].{name,url,snippet}`
+ */
+class BingSearchBackend extends HttpSearchBackend {
+  constructor(config: SearchBackendConfig, defaults: { timeout: number }) {
+    super(
+      { ...config, url: config.url ?? 'https://api.bing.microsoft.com/v7.0/search' },
+      defaults,
+      config.apiKey ? { 'Ocp-Apim-Subscription-Key': config.apiKey } : {}
+    );
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const response = await this.client.get(this.endpoint, {
+      params: { q: query, count: Math.min(limit, 50), ...this.config.params }
+    });
+
+    return this.toResults(response.data?.webPages?.value ?? [], limit, { title: 'name', url: 'url', snippet: 'snippet' });
+  }
+}
+
+/**
+ * Tavily Search API format: POST, `results[].{title,url,content}`
+ */
+class TavilySearchBackend extends HttpSearchBackend {
+  constructor(config: SearchBackendConfig, defaults: { timeout: number }) {
+    super(
+      { ...config, url: config.url ?? 'https://api.tavily.com/search' },
+      defaults,
+      config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
+    );
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const response = await this.client.post(this.endpoint, {
+      query,
+      max_results: Math.min(limit, 20),
+      ...this.config.params
+    });
+
+    return this.toResults(response.data?.results, limit, { title: 'title', url: 'url', snippet: 'content' });
+  }
+}
+
+/**
+ * Any JSON search API, described by a JsonSearchMapping
+ */
+class JsonSearchBackend extends HttpSearchBackend {
+  private mapping: JsonSearchMapping;
+
+  constructor(config: SearchBackendConfig, defaults: { timeout: number }) {
+    super(config, defaults, config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {});
+
+    if (!config.mapping) {
+      throw new Error(`Search backend "${this.name}" of type json requires a mapping`);
+    }
+    this.mapping = config.mapping;
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const { method = 'GET', queryParam = 'q', limitParam, resultsPath, titlePath, urlPath, snippetPath } = this.mapping;
+    const params: Record<string, string | number> = {
+      [queryParam]: query,
+      ...(limitParam ? { [limitParam]: limit } : {}),
+      ...this.config.params
+    };
+
+    const response = method === 'POST'
+      ? await this.client.post(this.endpoint, params)
+      : await this.client.get(this.endpoint, { params });
+
+    return this.toResults(getPath(response.data, resultsPath), limit, { title: titlePath, url: urlPath, snippet: snippetPath });
+  }
+}
+
+registerSearchBackend('brave', (config, defaults) => new BraveSearchBackend(config, defaults));
+registerSearchBackend('bing', (config, defaults) => new BingSearchBackend(config, defaults));
+registerSearchBackend('tavily', (config, defaults) => new TavilySearchBackend(config, defaults));
+registerSearchBackend('json', (config, defaults) => new JsonSearchBackend(config, defaults));
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getPath(value: any, path: string): any {
+  if (!path) return value;
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = stripHtml(String(value));
+  return text.length > 0 ? text : undefined;
+}
+
+// Brave and Bing highlight matches with <strong>/<b> tags
+function stripHtml(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&').trim();
+}
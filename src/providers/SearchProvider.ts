@@ -1,10 +1,26 @@
 import axios, { AxiosInstance } from 'axios';
-import type { SearchProvider as ISearchProvider, SearchResult, SearchConfig, SearchError } from '../types/index.js';
+import type {
+  SearchProvider as ISearchProvider,
+  SearchBackend,
+  SearchResult,
+  SearchConfig,
+  SearchError,
+  SearchParams,
+  InstanceHealth,
+  CacheProvider
+} from '../types/index.js';
+import { createSearchBackend } from './SearchBackends.js';
+import { InstanceHealthTracker } from '../utils/InstanceHealthTracker.js';
+import { RateLimiter } from '../utils/RateLimiter.js';
+
+// Position of the SearXNG instances in the backend order
+const SEARXNG = 'searxng';
 
 interface SearXNGResult {
   title: string;
   url: string;
   content?: string;
+  engines?: string[];
 }
 
 interface SearXNGResponse {
@@ -13,35 +29,113 @@ interface SearXNGResponse {
 
 export class SearchProvider implements ISearchProvider {
   private config: SearchConfig;
-  private currentInstanceIndex: number = 0;
-
-  constructor(config: SearchConfig) {
+  private health: InstanceHealthTracker;
+  private backends: Array<SearchBackend | typeof SEARXNG>;
+  private limiters: Map<string, RateLimiter> = new Map();
+  private cache?: CacheProvider;
+  private cacheHits = 0;
+
+  /**
+   * @param cache - Caches result lists per query and parameters; omit to always search
+   */
+  constructor(config: SearchConfig, cache?: CacheProvider) {
+    this.cache = cache;
     this.config = {
-      instances: config.instances,
+      instances: config.instances ?? [],
       priorityOrder: config.priorityOrder ?? false,
       maxRetries: config.maxRetries ?? 3,
-      timeout: config.timeout ?? 10000
+      timeout: config.timeout ?? 10000,
+      backends: config.backends ?? [],
+      defaults: config.defaults ?? {},
+      maxPages: config.maxPages ?? 5,
+      rateLimit: config.rateLimit ?? {}
     };
 
-    if (!this.config.instances || this.config.instances.length === 0) {
-      throw new Error('At least one SearXNG instance must be provided');
+    if (this.config.instances.length === 0 && this.config.backends!.length === 0) {
+      throw new Error('At least one SearXNG instance or search backend must be provided');
+    }
+
+    this.health = new InstanceHealthTracker(this.config.instances, config.circuitBreaker);
+
+    this.backends = this.config.backends!.map(backend =>
+      backend.type === SEARXNG ? SEARXNG : createSearchBackend(backend, { timeout: this.config.timeout! })
+    );
+
+    // SearXNG goes first unless a { type: 'searxng' } entry places it elsewhere
+    if (!this.backends.includes(SEARXNG) && this.config.instances.length > 0) {
+      this.backends.unshift(SEARXNG);
+    }
+
+    if (this.backends.includes(SEARXNG) && this.config.instances.length === 0) {
+      throw new Error('A searxng backend entry requires at least one SearXNG instance');
+    }
+  }
+
+  /**
+   * Search each backend in order, falling back to the next when one fails
+   * A backend's cached results for the same query and parameters are returned without searching
+   */
+  async search(query: string, limit: number = 10, params: SearchParams = {}): Promise<SearchResult[]> {
+    const searchParams = { ...this.config.defaults, ...params };
+    let lastError: unknown;
+
+    for (let i = 0; i < this.backends.length; i++) {
+      const backend = this.backends[i];
+      const backendId = this.backendId(backend);
+
+      const cached = await this.cache?.getCachedSearch?.(backendId, query, searchParams, limit);
+      if (cached) {
+        this.cacheHits++;
+        return cached;
+      }
+
+      try {
+        const results = backend === SEARXNG
+          ? await this.searchSearXNG(query, limit, searchParams)
+          : await this.searchBackend(backend, query, limit);
+
+        // An empty list is often a transient backend hiccup; don't pin it for the cache lifetime
+        if (results.length > 0) {
+          await this.cache?.cacheSearch?.(backendId, query, searchParams, limit, results);
+        }
+        return results;
+      } catch (error) {
+        lastError = error;
+
+        if (i < this.backends.length - 1) {
+          console.log(`⚠️  ${this.backendName(backend)} failed for "${query}", falling back to ${this.backendName(this.backends[i + 1])}...`);
+        }
+      }
     }
+
+    throw lastError;
   }
 
-  async search(query: string, limit: number = 10): Promise<SearchResult[]> {
+  private async searchSearXNG(query: string, limit: number, params: SearchParams): Promise<SearchResult[]> {
     const instances = this.config.instances;
     const maxRetries = this.config.maxRetries!;
     let lastError: Error | null = null;
     let totalRetryCount = 0;
 
-    // Try each instance
+    const tried = new Set<string>();
+
+    // Try each instance, healthiest first
     for (let instanceAttempt = 0; instanceAttempt < instances.length; instanceAttempt++) {
-      const instanceUrl = this.getNextInstance();
+      const instanceUrl = this.health.select(instances, tried, this.config.priorityOrder!, url => this.load(url));
+      // Duplicate URLs are used up early; a benched instance may be busy with its one trial request
+      if (instanceUrl === undefined) {
+        lastError ??= new Error('All instances are benched');
+        break;
+      }
+      tried.add(instanceUrl);
 
       // Retry same instance multiple times before moving to next
       for (let retry = 0; retry < maxRetries; retry++) {
+        const startTime = Date.now();
+
         try {
-          const results = await this.executeSearch(instanceUrl, query, limit);
+          const results = await this.executeSearch(instanceUrl, query, limit, params);
+          this.health.recordSuccess(instanceUrl, Date.now() - startTime);
 
           // If we succeeded after retries, log success
           if (totalRetryCount > 2) {
@@ -52,6 +146,18 @@ export class SearchProvider implements ISearchProvider {
         } catch (error: any) {
           lastError = error;
           totalRetryCount++;
+          this.health.recordFailure(instanceUrl, this.getErrorMessage(error), error.response?.status, Date.now() - startTime);
+
+          const retryAfter = this.getRetryAfter(error);
+          if (retryAfter !== undefined) {
+            this.limiter(instanceUrl).pauseFor(retryAfter);
+            this.health.openFor(instanceUrl, retryAfter);
+          }
+
+          // Circuit opened: stop hammering this instance
+          if (!this.health.isAvailable(instanceUrl)) {
+            break;
+          }
 
           // If it's a retryable error and we have retries left
           if (this.isRetryableError(error) && retry < maxRetries - 1) {
@@ -94,7 +200,62 @@ export class SearchProvider implements ISearchProvider {
     } as SearchError;
   }
 
-  private async executeSearch(instanceUrl: string, query: string, limit: number): Promise<SearchResult[]> {
+  private async searchBackend(backend: SearchBackend, query: string, limit: number): Promise<SearchResult[]> {
+    const maxRetries = this.config.maxRetries!;
+    let lastError: any = null;
+
+    for (let retry = 0; retry < maxRetries; retry++) {
+      try {
+        return await this.limiter(backend.name).add(() => backend.search(query, limit));
+      } catch (error: any) {
+        lastError = error;
+
+        const retryAfter = this.getRetryAfter(error);
+        if (retryAfter !== undefined) {
+          this.limiter(backend.name).pauseFor(retryAfter);
+        }
+
+        if (!this.isRetryableError(error) || retry === maxRetries - 1) {
+          break;
+        }
+
+        await this.sleep(500 * Math.pow(2, retry));
+      }
+    }
+
+    const errorMsg = this.getErrorMessage(lastError);
+    console.error(`❌ Search failed for "${query}" on ${backend.name}: ${errorMsg}`);
+
+    throw {
+      name: 'SearchError',
+      message: `Search failed on ${backend.name}: ${errorMsg}`,
+      code: 'SEARCH_ERROR',
+      details: { query, backend: backend.name, lastError: errorMsg }
+    } as SearchError;
+  }
+
+  getSearchCacheHits(): number {
+    return this.cacheHits;
+  }
+
+  private backendName(backend: SearchBackend | typeof SEARXNG): string {
+    return backend === SEARXNG ? 'SearXNG' : backend.name;
+  }
+
+  // Backends rank and filter differently, so each one's results are cached separately
+  private backendId(backend: SearchBackend | typeof SEARXNG): string {
+    return backend === SEARXNG ? SEARXNG : backend.name;
+  }
+
+  /**
+   * Search one instance, fetching further result pages until `limit` is reached
+   */
+  private async executeSearch(
+    instanceUrl: string,
+    query: string,
+    limit: number,
+    params: SearchParams
+  ): Promise<SearchResult[]> {
     const client = axios.create({
       timeout: this.config.timeout,
       headers: {
@@ -106,10 +267,51 @@ export class SearchProvider implements ISearchProvider {
       }
     });
 
+    const firstPage = params.pageno ?? 1;
+    const results = new Map<string, SearchResult>();
+
+    for (let page = firstPage; page < firstPage + this.config.maxPages! && results.size < limit; page++) {
+      let pageResults: SearchResult[];
+
+      try {
+        pageResults = await this.limiter(instanceUrl).add(() => this.fetchPage(client, instanceUrl, query, params, page));
+      } catch (error) {
+        // Later pages are best-effort; only the first page decides success
+        if (page === firstPage) throw error;
+        break;
+      }
+
+      const countBefore = results.size;
+      pageResults.forEach(result => {
+        if (!results.has(result.url)) {
+          results.set(result.url, result);
+        }
+      });
+
+      // Empty or fully repeated page: the engines have nothing more
+      if (results.size === countBefore) break;
+    }
+
+    return Array.from(results.values()).slice(0, limit);
+  }
+
+  private async fetchPage(
+    client: AxiosInstance,
+    instanceUrl: string,
+    query: string,
+    params: SearchParams,
+    page: number
+  ): Promise<SearchResult[]> {
     const searchUrl = new URL(`${instanceUrl}/search`);
     searchUrl.searchParams.append('q', query);
     searchUrl.searchParams.append('format', 'json');
-    searchUrl.searchParams.append('safesearch', '0');
+    searchUrl.searchParams.append('safesearch', String(params.safesearch ?? 0));
+    searchUrl.searchParams.append('pageno', String(page));
+
+    if (params.categories?.length) searchUrl.searchParams.append('categories', params.categories.join(','));
+    if (params.engines?.length) searchUrl.searchParams.append('engines', params.engines.join(','));
+    if (params.language) searchUrl.searchParams.append('language', params.language);
+    if (params.timeRange) searchUrl.searchParams.append('time_range', params.timeRange);
 
     const response = await client.get<SearXNGResponse>(searchUrl.toString());
 
@@ -129,28 +331,40 @@ export class SearchProvider implements ISearchProvider {
       throw new Error('Invalid response from SearXNG: Results is not an array');
     }
 
-    const results: SearchResult[] = response.data.results
-      .slice(0, limit)
-      .map(result => ({
-        title: result.title,
-        url: result.url,
-        snippet: result.content
-      }));
-
-    return results;
+    return response.data.results.map(result => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content,
+      engines: result.engines
+    }));
   }
 
-  private getNextInstance(): string {
-    if (this.config.priorityOrder) {
-      // Priority order: always try first, then second, etc.
-      const instance = this.config.instances[this.currentInstanceIndex];
-      this.currentInstanceIndex = (this.currentInstanceIndex + 1) % this.config.instances.length;
-      return instance;
-    } else {
-      // Random rotation
-      const randomIndex = Math.floor(Math.random() * this.config.instances.length);
-      return this.config.instances[randomIndex];
+  /**
+   * Rate limiter for one SearXNG instance or backend, created on first use
+   */
+  private limiter(key: string): RateLimiter {
+    let limiter = this.limiters.get(key);
+
+    if (!limiter) {
+      const { overrides, ...defaults } = this.config.rateLimit!;
+      const settings = { ...defaults, ...overrides?.[key] };
+      limiter = new RateLimiter(settings.maxConcurrent ?? 2, settings.minInterval ?? 1000);
+      this.limiters.set(key, limiter);
     }
+
+    return limiter;
+  }
+
+  private load(key: string): number {
+    const stats = this.limiters.get(key)?.getStats();
+    return stats ? stats.queueLength + stats.processing : 0;
+  }
+
+  /**
+   * Health, latency and circuit state of each SearXNG instance
+   */
+  getInstanceHealth(): InstanceHealth[] {
+    return this.health.getHealth();
   }
 
   private isRetryableError(error: any): boolean {
@@ -177,6 +391,18 @@ export class SearchProvider implements ISearchProvider {
     return false;
   }
 
+  // Retry-After is either delay-seconds or an HTTP date
+  private getRetryAfter(error: any): number | undefined {
+    const header = error?.response?.headers?.['retry-after'];
+    if (header === undefined || header === null) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+    const date = Date.parse(String(header));
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+
   private getErrorMessage(error: any): string {
     if (!error) return 'Unknown error';
 
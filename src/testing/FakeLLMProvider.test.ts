@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { FakeLLMProvider } from './FakeLLMProvider.js';
+import { ResponseValidator } from '../utils/ResponseValidator.js';
+
+describe('FakeLLMProvider', () => {
+  it('answers every agent with a valid default response', async () => {
+    const llm = new FakeLLMProvider();
+
+    const planning = await llm.generate('plan', { agentType: 'planner' });
+    const evaluation = await llm.generate('evaluate', { agentType: 'evaluator' });
+    const summary = await llm.generate('summarize', { agentType: 'summarizer' });
+
+    expect(ResponseValidator.validatePlanning(planning.content).success).toBe(true);
+    expect(ResponseValidator.validateEvaluation(evaluation.content).success).toBe(true);
+    expect(ResponseValidator.validateSummary(summary.content).success).toBe(true);
+  });
+
+  it('keeps every listed source when filtering', async () => {
+    const llm = new FakeLLMProvider();
+    const { content } = await llm.generate('SOURCES:\n0. [A] a\n1. [B] b', { agentType: 'filter' });
+
+    expect(JSON.parse(content).ranked_sources.map((source: { index: number }) => source.index)).toEqual([0, 1]);
+  });
+
+  it('serves scripted arrays in order and repeats the last entry', async () => {
+    const llm = new FakeLLMProvider({ responses: { reporter: ['first', { text: 'second' }] } });
+
+    const contents = [];
+    for (let i = 0; i < 3; i++) {
+      contents.push((await llm.generate('p', { agentType: 'reporter' })).content);
+    }
+
+    expect(contents).toEqual(['first', '{"text":"second"}', '{"text":"second"}']);
+  });
+
+  it('passes the call to function responses and lets them throw', async () => {
+    const llm = new FakeLLMProvider({
+      responses: { planner: () => { throw new Error('model down'); } },
+      defaultResponse: ({ prompt, model }) => `${model}: ${prompt}`
+    });
+
+    await expect(llm.generate('p', { agentType: 'planner' })).rejects.toThrow('model down');
+    expect((await llm.generate('hello', { model: 'm' })).content).toBe('m: hello');
+  });
+
+  it('records calls and replaces scripts with respond', async () => {
+    const llm = new FakeLLMProvider({ usage: { promptTokens: 1, completionTokens: 2, totalTokens: 3 } });
+    llm.respond('reporter', 'scripted');
+
+    const result = await llm.generate('p', { agentType: 'reporter', model: 'm' });
+
+    expect(result.usage?.totalTokens).toBe(3);
+    expect(llm.callsFor('reporter')).toEqual([
+      { prompt: 'p', options: { agentType: 'reporter', model: 'm' }, agentType: 'reporter', model: 'm', response: 'scripted' }
+    ]);
+
+    llm.reset();
+    expect(llm.calls).toEqual([]);
+  });
+
+  it('streams the response in chunks', async () => {
+    const llm = new FakeLLMProvider({ responses: { reporter: '# Title\n\nSome words here' } });
+    const chunks: string[] = [];
+
+    const result = await llm.generateStream('p', { agentType: 'reporter' }, chunk => chunks.push(chunk));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(result.content);
+  });
+});
@@ -0,0 +1,168 @@
+import type {
+  AgentType,
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMGenerateResult,
+  LLMStreamCallback,
+  LLMUsage,
+  ModelInfo,
+  PlanningResponse,
+  EvaluationResponse,
+  FilteringResponse,
+  SummaryResponse
+} from '../types/index.js';
+
+export interface FakeLLMCall {
+  prompt: string;
+  options: LLMGenerateOptions;
+  agentType?: AgentType;
+  model?: string;
+  response: string;
+}
+
+// A canned response: raw text, an object sent as JSON, or a function of the call.
+// Functions may throw to simulate a failing model.
+export type FakeLLMResponse =
+  | string
+  | object
+  | ((call: Omit<FakeLLMCall, 'response'>) => string | object);
+
+export interface FakeLLMProviderOptions {
+  // Response per agent; an array is served in order and its last entry repeats
+  responses?: Partial<Record<AgentType, FakeLLMResponse | FakeLLMResponse[]>>;
+  // Used for calls without an agent type or agents with no scripted response
+  defaultResponse?: FakeLLMResponse;
+  // Reported usage; omit to have the pipeline estimate tokens
+  usage?: LLMUsage;
+}
+
+const DEFAULT_RESPONSES: Record<AgentType, FakeLLMResponse> = {
+  planner: {
+    analysis: 'Fake analysis',
+    queries: [{ query: 'fake research query', purpose: 'Fake purpose', priority: 1 }],
+    synthesis_note: 'Fake synthesis note'
+  } satisfies PlanningResponse,
+  parser: { summary: 'Fake summary', key_takeaway: 'Fake takeaway', relevance: 'high' } satisfies SummaryResponse,
+  summarizer: { summary: 'Fake summary', key_takeaway: 'Fake takeaway', relevance: 'high' } satisfies SummaryResponse,
+  evaluator: {
+    summary: 'Fake evaluation',
+    gaps: [],
+    follow_up_queries: [],
+    goal_met: true
+  } satisfies EvaluationResponse,
+  // Keep every source in the order given
+  filter: ({ prompt }): FilteringResponse => {
+    const sources = prompt.split('SOURCES:')[1] ?? '';
+    const indices = Array.from(sources.matchAll(/^(\d+)\. \[/gm), match => Number(match[1]));
+    return {
+      ranked_sources: indices.map(index => ({ index, relevance: 'high', reason: 'Fake ranking' })),
+      excluded: []
+    };
+  },
+  reporter: '# Fake Report\n\nThis report was generated by FakeLLMProvider.'
+};
+
+/**
+ * In-memory LLM provider with responses scripted per agent
+ *
+ * Unscripted agents get a minimal valid response, so a full research run
+ * completes without any configuration.
+ *
+ * @example
+ * ```typescript
+ * const llm = new FakeLLMProvider({
+ *   responses: {
+ *     planner: { analysis: '', queries: [{ query: 'creatine safety', purpose: '', priority: 1 }], synthesis_note: '' },
+ *     reporter: '# Creatine\n...'
+ *   }
+ * });
+ * ```
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly calls: FakeLLMCall[] = [];
+  private responses: Partial<Record<AgentType, FakeLLMResponse[]>> = {};
+  private served: Partial<Record<AgentType, number>> = {};
+  private defaultResponse?: FakeLLMResponse;
+  private usage?: LLMUsage;
+
+  constructor(options: FakeLLMProviderOptions = {}) {
+    this.defaultResponse = options.defaultResponse;
+    this.usage = options.usage;
+
+    Object.entries(options.responses ?? {}).forEach(([agentType, response]) => {
+      this.respond(agentType as AgentType, response);
+    });
+  }
+
+  /**
+   * Script the response(s) for an agent, replacing any earlier script
+   */
+  respond(agentType: AgentType, response: FakeLLMResponse | FakeLLMResponse[]): this {
+    this.responses[agentType] = Array.isArray(response) ? response : [response];
+    this.served[agentType] = 0;
+    return this;
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<LLMGenerateResult> {
+    const { agentType, model } = options;
+    const content = this.render(this.nextResponse(agentType), { prompt, options, agentType, model });
+
+    this.calls.push({ prompt, options, agentType, model, response: content });
+
+    return { content, usage: this.usage };
+  }
+
+  async generateStream(
+    prompt: string,
+    options: LLMGenerateOptions,
+    onChunk: LLMStreamCallback
+  ): Promise<LLMGenerateResult> {
+    const result = await this.generate(prompt, options);
+
+    // Word-sized chunks, like a real stream
+    result.content.split(/(?<=\s)/).forEach(chunk => onChunk(chunk));
+
+    return result;
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  getModelInfo(modelId: string): ModelInfo {
+    return { id: modelId, pricing: { prompt: 0, completion: 0 }, pricingKnown: true };
+  }
+
+  /**
+   * Calls made by an agent, in order
+   */
+  callsFor(agentType: AgentType): FakeLLMCall[] {
+    return this.calls.filter(call => call.agentType === agentType);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.served = {};
+  }
+
+  private nextResponse(agentType: AgentType | undefined): FakeLLMResponse {
+    const scripted = agentType ? this.responses[agentType] : undefined;
+
+    if (agentType && scripted && scripted.length > 0) {
+      const index = Math.min(this.served[agentType] ?? 0, scripted.length - 1);
+      this.served[agentType] = index + 1;
+      return scripted[index];
+    }
+
+    if (this.defaultResponse !== undefined) {
+      return this.defaultResponse;
+    }
+
+    return DEFAULT_RESPONSES[agentType ?? 'reporter'];
+  }
+
+  private render(response: FakeLLMResponse, call: Omit<FakeLLMCall, 'response'>): string {
+    const value = typeof response === 'function' ? response(call) : response;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { FakeScraperProvider } from './FakeScraperProvider.js';
+
+describe('FakeScraperProvider', () => {
+  it('serves scripted pages and generates the rest', async () => {
+    const scraper = new FakeScraperProvider({ 'https://a.example': 'Page A' });
+
+    expect(await scraper.scrape('https://a.example')).toBe('Page A');
+    expect(await scraper.scrape('https://b.example')).toContain('fake content for https://b.example');
+    expect(scraper.calls).toEqual(['https://a.example', 'https://b.example']);
+  });
+
+  it('throws for failing URLs', async () => {
+    const scraper = new FakeScraperProvider().fail('https://a.example');
+    await expect(scraper.scrape('https://a.example')).rejects.toThrow('simulated failure');
+  });
+
+  it('falls back to the snippet in scrapeMany', async () => {
+    const scraper = new FakeScraperProvider(url => `Page ${url}`).fail('https://b.example');
+
+    const scraped = await scraper.scrapeMany([
+      { title: 'A', url: 'https://a.example', snippet: 'a' },
+      { title: 'B', url: 'https://b.example', snippet: 'b snippet' }
+    ]);
+
+    expect(scraped).toEqual([
+      { title: 'A', url: 'https://a.example', content: 'Page https://a.example', cached: false },
+      { title: 'B', url: 'https://b.example', content: 'b snippet', cached: false, strategy: 'snippet' }
+    ]);
+  });
+});
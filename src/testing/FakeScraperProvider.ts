@@ -0,0 +1,69 @@
+import type { ScraperProvider, ScrapedContent, SearchResult } from '../types/index.js';
+
+// Page content per URL, or a function of the URL; functions may throw to simulate a failed scrape
+export type FakePages = Record<string, string> | ((url: string) => string);
+
+/**
+ * In-memory scraper
+ *
+ * URLs without scripted content get generated prose long enough to pass quality filtering.
+ * Like the real scraper, scrapeMany falls back to the search snippet when a page fails.
+ */
+export class FakeScraperProvider implements ScraperProvider {
+  readonly calls: string[] = [];
+  private pages?: FakePages;
+  private failing: Set<string> = new Set();
+
+  constructor(pages?: FakePages) {
+    this.pages = pages;
+  }
+
+  /**
+   * Make scraping these URLs throw
+   */
+  fail(...urls: string[]): this {
+    urls.forEach(url => this.failing.add(url));
+    return this;
+  }
+
+  async scrape(url: string): Promise<string> {
+    this.calls.push(url);
+
+    if (this.failing.has(url)) {
+      throw new Error(`Failed to scrape ${url}: simulated failure`);
+    }
+
+    if (typeof this.pages === 'function') {
+      return this.pages(url);
+    }
+
+    return this.pages?.[url] ?? this.defaultPage(url);
+  }
+
+  async scrapeMany(results: SearchResult[]): Promise<ScrapedContent[]> {
+    return Promise.all(results.map(async (result) => {
+      try {
+        return { title: result.title, url: result.url, content: await this.scrape(result.url), cached: false };
+      } catch (error) {
+        return {
+          title: result.title,
+          url: result.url,
+          content: result.snippet || 'Content unavailable',
+          cached: false,
+          strategy: 'snippet' as const
+        };
+      }
+    }));
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  private defaultPage(url: string): string {
+    const paragraph = `This is fake content for ${url}. It contains several sentences of reasonable length. ` +
+      'Each paragraph discusses the topic in general terms so quality scoring treats it as a real page.';
+
+    return `# Fake page\n\n${Array(5).fill(paragraph).join('\n\n')}`;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { FakeSearchProvider } from './FakeSearchProvider.js';
+
+const result = { title: 'A', url: 'https://a.example', snippet: 'a' };
+
+describe('FakeSearchProvider', () => {
+  it('returns three deterministic results for unscripted queries', async () => {
+    const search = new FakeSearchProvider();
+    const results = await search.search('Creatine Safety');
+
+    expect(results.map(r => r.url)).toEqual([
+      'https://example.com/creatine-safety/1',
+      'https://example.com/creatine-safety/2',
+      'https://example.com/creatine-safety/3'
+    ]);
+    expect(await search.search('Creatine Safety')).toEqual(results);
+  });
+
+  it('serves scripted results and honours the limit', async () => {
+    const search = new FakeSearchProvider({ creatine: [result, { ...result, url: 'https://b.example' }], empty: [] });
+
+    expect(await search.search('creatine', 1)).toEqual([result]);
+    expect(await search.search('empty')).toEqual([]);
+  });
+
+  it('lets a results function throw', async () => {
+    const search = new FakeSearchProvider(() => { throw new Error('outage'); });
+    await expect(search.search('q')).rejects.toThrow('outage');
+  });
+
+  it('records queries with their limit and params', async () => {
+    const search = new FakeSearchProvider();
+    await search.search('q', 5, { timeRange: 'year' });
+
+    expect(search.calls).toEqual([{ query: 'q', limit: 5, params: { timeRange: 'year' } }]);
+    expect(search.queries).toEqual(['q']);
+
+    search.reset();
+    expect(search.queries).toEqual([]);
+  });
+});
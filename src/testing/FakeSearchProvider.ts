@@ -0,0 +1,52 @@
+import type { SearchProvider, SearchParams, SearchResult } from '../types/index.js';
+
+export interface FakeSearchCall {
+  query: string;
+  limit?: number;
+  params?: SearchParams;
+}
+
+// Results per exact query, or a function of the query; functions may throw to simulate an outage
+export type FakeSearchResults = Record<string, SearchResult[]> | ((query: string) => SearchResult[]);
+
+/**
+ * In-memory search provider
+ *
+ * Queries without scripted results get three deterministic example.com results.
+ */
+export class FakeSearchProvider implements SearchProvider {
+  readonly calls: FakeSearchCall[] = [];
+  private results?: FakeSearchResults;
+
+  constructor(results?: FakeSearchResults) {
+    this.results = results;
+  }
+
+  async search(query: string, limit: number = 10, params?: SearchParams): Promise<SearchResult[]> {
+    this.calls.push({ query, limit, params });
+
+    const results = typeof this.results === 'function'
+      ? this.results(query)
+      : this.results?.[query] ?? this.defaultResults(query);
+
+    return results.slice(0, limit);
+  }
+
+  get queries(): string[] {
+    return this.calls.map(call => call.query);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  private defaultResults(query: string): SearchResult[] {
+    const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+    return [1, 2, 3].map(i => ({
+      title: `${query} - result ${i}`,
+      url: `https://example.com/${slug}/${i}`,
+      snippet: `Snippet ${i} for ${query}`
+    }));
+  }
+}
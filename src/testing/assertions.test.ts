@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AssertionError } from 'assert';
+import { FakeLLMProvider } from './FakeLLMProvider.js';
+import { FakeSearchProvider } from './FakeSearchProvider.js';
+import { FakeScraperProvider } from './FakeScraperProvider.js';
+import {
+  assertAgentCalled,
+  assertAgentNotCalled,
+  assertPromptContains,
+  assertModelUsed,
+  assertSearched,
+  assertNotSearched,
+  assertScraped,
+  assertNotScraped
+} from './assertions.js';
+
+let llm: FakeLLMProvider;
+let search: FakeSearchProvider;
+let scraper: FakeScraperProvider;
+
+beforeEach(async () => {
+  llm = new FakeLLMProvider();
+  search = new FakeSearchProvider();
+  scraper = new FakeScraperProvider();
+
+  await llm.generate('Research creatine safety', { agentType: 'planner', model: 'openai/gpt-4o-mini' });
+  await search.search('creatine safety');
+  await scraper.scrape('https://a.example/creatine');
+});
+
+describe('LLM assertions', () => {
+  it('count calls per agent', () => {
+    expect(() => assertAgentCalled(llm, 'planner')).not.toThrow();
+    expect(() => assertAgentCalled(llm, 'planner', 1)).not.toThrow();
+    expect(() => assertAgentCalled(llm, 'planner', 2)).toThrow('Expected planner to be called 2 time(s), got 1');
+    expect(() => assertAgentCalled(llm, 'reporter')).toThrow(AssertionError);
+    expect(() => assertAgentNotCalled(llm, 'reporter')).not.toThrow();
+    expect(() => assertAgentNotCalled(llm, 'planner')).toThrow(AssertionError);
+  });
+
+  it('check prompt text and models', () => {
+    expect(() => assertPromptContains(llm, 'planner', 'creatine')).not.toThrow();
+    expect(() => assertPromptContains(llm, 'planner', /creatine\s+safety/)).not.toThrow();
+    expect(() => assertPromptContains(llm, 'planner', 'caffeine')).toThrow(AssertionError);
+    expect(() => assertModelUsed(llm, 'planner', 'openai/gpt-4o-mini')).not.toThrow();
+    expect(() => assertModelUsed(llm, 'planner', 'other/model')).toThrow('used: openai/gpt-4o-mini');
+  });
+});
+
+describe('search and scrape assertions', () => {
+  it('match exact strings or patterns', () => {
+    expect(() => assertSearched(search, 'creatine safety')).not.toThrow();
+    expect(() => assertSearched(search, 'creatine')).toThrow(AssertionError);
+    expect(() => assertSearched(search, /creatine/)).not.toThrow();
+    expect(() => assertNotSearched(search, /caffeine/)).not.toThrow();
+    expect(() => assertNotSearched(search, /creatine/)).toThrow('but searched "creatine safety"');
+
+    expect(() => assertScraped(scraper, 'https://a.example/creatine')).not.toThrow();
+    expect(() => assertScraped(scraper, /b\.example/)).toThrow(AssertionError);
+    expect(() => assertNotScraped(scraper, /b\.example/)).not.toThrow();
+    expect(() => assertNotScraped(scraper, /a\.example/)).toThrow(AssertionError);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Assertion helpers over calls recorded by the fake providers
+ * Throw node's AssertionError, so they work with any test runner
+ */
+
+import { AssertionError } from 'assert';
+import type { AgentType } from '../types/index.js';
+import type { FakeLLMProvider } from './FakeLLMProvider.js';
+import type { FakeSearchProvider } from './FakeSearchProvider.js';
+import type { FakeScraperProvider } from './FakeScraperProvider.js';
+
+const matches = (value: string, expected: string | RegExp) =>
+  typeof expected === 'string' ? value === expected : expected.test(value);
+
+const fail = (message: string, actual?: unknown, expected?: unknown): never => {
+  throw new AssertionError({ message, actual, expected });
+};
+
+/**
+ * Assert an agent was called, optionally an exact number of times
+ */
+export function assertAgentCalled(llm: FakeLLMProvider, agentType: AgentType, times?: number): void {
+  const count = llm.callsFor(agentType).length;
+
+  if (times === undefined ? count === 0 : count !== times) {
+    fail(
+      `Expected ${agentType} to be called ${times === undefined ? 'at least once' : `${times} time(s)`}, got ${count}`,
+      count,
+      times
+    );
+  }
+}
+
+export function assertAgentNotCalled(llm: FakeLLMProvider, agentType: AgentType): void {
+  assertAgentCalled(llm, agentType, 0);
+}
+
+/**
+ * Assert some prompt sent to an agent contains the given text
+ */
+export function assertPromptContains(llm: FakeLLMProvider, agentType: AgentType, text: string | RegExp): void {
+  const prompts = llm.callsFor(agentType).map(call => call.prompt);
+  const found = prompts.some(prompt => (typeof text === 'string' ? prompt.includes(text) : text.test(prompt)));
+
+  if (!found) {
+    fail(`No ${agentType} prompt contains ${text} (${prompts.length} call(s))`);
+  }
+}
+
+/**
+ * Assert an agent was called with the given model
+ */
+export function assertModelUsed(llm: FakeLLMProvider, agentType: AgentType, model: string): void {
+  const models = llm.callsFor(agentType).map(call => call.model);
+
+  if (!models.includes(model)) {
+    fail(`Expected ${agentType} to use ${model}, used: ${models.join(', ') || 'none'}`, models, model);
+  }
+}
+
+export function assertSearched(search: FakeSearchProvider, query: string | RegExp): void {
+  if (!search.queries.some(q => matches(q, query))) {
+    fail(`Expected a search for ${query}, searched: ${search.queries.join(', ') || 'nothing'}`, search.queries, query);
+  }
+}
+
+export function assertNotSearched(search: FakeSearchProvider, query: string | RegExp): void {
+  const hit = search.queries.find(q => matches(q, query));
+  if (hit !== undefined) {
+    fail(`Expected no search for ${query}, but searched "${hit}"`);
+  }
+}
+
+export function assertScraped(scraper: FakeScraperProvider, url: string | RegExp): void {
+  if (!scraper.calls.some(u => matches(u, url))) {
+    fail(`Expected ${url} to be scraped, scraped: ${scraper.calls.join(', ') || 'nothing'}`, scraper.calls, url);
+  }
+}
+
+export function assertNotScraped(scraper: FakeScraperProvider, url: string | RegExp): void {
+  const hit = scraper.calls.find(u => matches(u, url));
+  if (hit !== undefined) {
+    fail(`Expected ${url} not to be scraped, but scraped ${hit}`);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { createTestAgent, assertAgentCalled, assertSearched, assertScraped } from './index.js';
+
+describe('createTestAgent', () => {
+  it('completes a research run against the fakes without configuration', async () => {
+    const { agent, llm, search, scraper } = createTestAgent();
+    const result = await agent.research('creatine');
+
+    expect(result.report).toContain('# Fake Report');
+    expect(result.metadata.partial).toBeUndefined();
+    assertAgentCalled(llm, 'planner', 1);
+    assertAgentCalled(llm, 'reporter', 1);
+    assertSearched(search, 'fake research query');
+    assertScraped(scraper, 'https://example.com/fake-research-query/1');
+  });
+
+  it('does not cache between runs', async () => {
+    const { agent, llm, search } = createTestAgent();
+    await agent.research('creatine');
+    const firstRun = llm.calls.length;
+
+    await agent.research('creatine');
+
+    expect(llm.calls.length).toBe(firstRun * 2);
+    expect(search.calls).toHaveLength(2);
+  });
+
+  it('uses scripted responses', async () => {
+    const { agent } = createTestAgent({ llm: { responses: { reporter: '# Creatine' } } });
+    const result = await agent.research('creatine');
+
+    expect(result.report).toContain('# Creatine');
+  });
+});
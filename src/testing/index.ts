@@ -0,0 +1,72 @@
+/**
+ * Research Agent testing kit
+ *
+ * In-memory providers and assertion helpers for testing code that uses
+ * ResearchAgent without network access. Import from `ts-research-agent/testing`.
+ *
+ * @packageDocumentation
+ */
+
+import type { ResearchAgentConfig } from '../types/index.js';
+import { ResearchAgent } from '../ResearchAgent.js';
+import { FakeLLMProvider } from './FakeLLMProvider.js';
+import type { FakeLLMProviderOptions } from './FakeLLMProvider.js';
+import { FakeSearchProvider } from './FakeSearchProvider.js';
+import type { FakeSearchResults } from './FakeSearchProvider.js';
+import { FakeScraperProvider } from './FakeScraperProvider.js';
+import type { FakePages } from './FakeScraperProvider.js';
+
+export { FakeLLMProvider, FakeSearchProvider, FakeScraperProvider };
+export type { FakeLLMCall, FakeLLMResponse, FakeLLMProviderOptions } from './FakeLLMProvider.js';
+export type { FakeSearchCall, FakeSearchResults } from './FakeSearchProvider.js';
+export type { FakePages } from './FakeScraperProvider.js';
+export {
+  assertAgentCalled,
+  assertAgentNotCalled,
+  assertPromptContains,
+  assertModelUsed,
+  assertSearched,
+  assertNotSearched,
+  assertScraped,
+  assertNotScraped
+} from './assertions.js';
+
+export interface TestAgentOptions {
+  llm?: FakeLLMProviderOptions;
+  search?: FakeSearchResults;
+  pages?: FakePages;
+  config?: Omit<ResearchAgentConfig, 'providers'>; // e.g. model settings under test
+}
+
+export interface TestAgent {
+  agent: ResearchAgent;
+  llm: FakeLLMProvider;
+  search: FakeSearchProvider;
+  scraper: FakeScraperProvider;
+}
+
+/**
+ * Create a ResearchAgent wired to fresh fake providers
+ *
+ * Nothing is cached unless `config.persistence` is set, so every run reaches the fakes.
+ *
+ * @example
+ * ```typescript
+ * const { agent, llm, search } = createTestAgent({ llm: { responses: { reporter: '# Done' } } });
+ * const result = await agent.research('creatine');
+ * assertAgentCalled(llm, 'planner', 1);
+ * assertSearched(search, 'fake research query');
+ * ```
+ */
+export function createTestAgent(options: TestAgentOptions = {}): TestAgent {
+  const llm = new FakeLLMProvider(options.llm);
+  const search = new FakeSearchProvider(options.search);
+  const scraper = new FakeScraperProvider(options.pages);
+
+  const agent = new ResearchAgent({
+    ...options.config,
+    providers: { llm, search, scraper }
+  });
+
+  return { agent, llm, search, scraper };
+}
@@ -6,6 +6,9 @@ export type ModelTier = 'small' | 'medium' | 'large';
 export type AgentType = 'planner' | 'parser' | 'summarizer' | 'evaluator' | 'filter' | 'reporter';
 export type ResearchDepth = 'shallow' | 'normal' | 'deep';
 
+// A single model ID, or an ordered list to fall back through when a model fails
+export type ModelChoice = string | string[];
+
 export interface ModelConfig {
   // Option 1: Simple tier selection (uses defaults)
   tiers?: {
@@ -19,43 +22,253 @@ export interface ModelConfig {
 
   // Option 2: Override with specific OpenRouter model IDs
   customModels?: {
-    planner?: string;
-    parser?: string;
-    summarizer?: string;
-    evaluator?: string;
-    filter?: string;
-    reporter?: string;
+    planner?: ModelChoice;
+    parser?: ModelChoice;
+    summarizer?: ModelChoice;
+    evaluator?: ModelChoice;
+    filter?: ModelChoice;
+    reporter?: ModelChoice;
   };
 
   // Option 3: Override the default tier mappings globally
   tierModels?: {
-    small?: string;
-    medium?: string;
-    large?: string;
+    small?: ModelChoice;
+    medium?: ModelChoice;
+    large?: ModelChoice;
+  };
+
+  // Per-agent generation parameters, merged over DEFAULT_AGENT_GENERATION
+  generation?: {
+    planner?: GenerationParams;
+    parser?: GenerationParams;
+    summarizer?: GenerationParams;
+    evaluator?: GenerationParams;
+    filter?: GenerationParams;
+    reporter?: GenerationParams;
   };
+
+  // Model context lengths in tokens, overriding the catalog and built-in values
+  contextLengths?: Record<string, number>;
+
+  // Model catalog written by `npm run fetch-models`, used for pricing and context lengths
+  catalogPath?: string;
+
+  // Re-fetch the catalog from OpenRouter when it is older than this (requires openRouterKey)
+  catalogTtlHours?: number;
+
+  // Option 4: Pick tier models from the catalog (requires catalogPath)
+  autoSelect?: ModelAutoSelectConfig;
+}
+
+export interface TierSelectionCriteria {
+  maxPromptPrice?: number; // USD per 1M prompt tokens
+  maxCompletionPrice?: number; // USD per 1M completion tokens
+  minContextLength?: number;
+  allow?: string[]; // Model ID patterns, `*` matches anything (e.g. 'deepseek/*')
+  deny?: string[];
+}
+
+// Top-level criteria apply to every tier; `tiers` overrides them per tier
+export interface ModelAutoSelectConfig extends TierSelectionCriteria {
+  tiers?: Partial<Record<ModelTier, TierSelectionCriteria>>;
+  fallbacks?: number; // Extra catalog models appended to each tier's fallback chain (default: 1)
+}
+
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  responseFormat?: 'text' | 'json'; // 'json' enables JSON mode on backends that support it
+  systemPrompt?: string;
 }
 
 export interface SearchConfig {
-  instances: string[];
+  instances: string[]; // SearXNG instances; may be empty when `backends` is set
   priorityOrder?: boolean;
   maxRetries?: number;
   timeout?: number;
+  // Other search APIs, tried in order after SearXNG (or where a { type: 'searxng' } entry is placed)
+  backends?: SearchBackendConfig[];
+  circuitBreaker?: CircuitBreakerConfig;
+  defaults?: SearchParams; // SearXNG parameters sent with every query
+  maxPages?: number; // Result pages fetched per query when one page isn't enough (default: 5)
+  rateLimit?: SearchRateLimitConfig;
+}
+
+export interface RateLimitSettings {
+  maxConcurrent?: number; // Requests in flight at once
+  minInterval?: number; // Milliseconds between request starts
+}
+
+// Applied separately to each SearXNG instance and each backend
+export interface SearchRateLimitConfig extends RateLimitSettings {
+  // Per-instance limits, keyed by SearXNG instance URL or backend name
+  overrides?: Record<string, RateLimitSettings>;
+}
+
+export type SearchTimeRange = 'day' | 'week' | 'month' | 'year';
+
+// SearXNG query parameters; other backends ignore them
+export interface SearchParams {
+  categories?: string[]; // e.g. ['general', 'science']
+  engines?: string[]; // e.g. ['google', 'bing', 'duckduckgo']
+  language?: string; // e.g. 'en', 'de-DE', 'all'
+  timeRange?: SearchTimeRange;
+  safesearch?: 0 | 1 | 2; // Default: 0
+  pageno?: number; // First page to fetch (default: 1)
+}
+
+// An instance is benched after `failureThreshold` consecutive failures (or any 429),
+// for `cooldownMs` doubling on each repeated trip up to `maxCooldownMs`
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Default: 3
+  cooldownMs?: number; // Default: 30000
+  maxCooldownMs?: number; // Default: 600000
+}
+
+export interface InstanceHealth {
+  url: string;
+  circuit: 'closed' | 'open' | 'half-open'; // half-open = cooldown over, next request is a trial
+  requests: number;
+  failures: number;
+  errorRate: number; // 0-1, weighted toward recent requests
+  avgLatencyMs?: number; // Weighted toward recent requests
+  last429At?: number; // Epoch ms
+  lastError?: string;
+  openUntil?: number; // Epoch ms, while the circuit is open
+}
+
+// Built-in adapters; custom types can be added with registerSearchBackend
+export type SearchBackendType = 'searxng' | 'brave' | 'bing' | 'tavily' | 'json' | (string & {});
+
+export interface SearchBackendConfig {
+  type: SearchBackendType;
+  name?: string; // Label for logs (default: the type)
+  url?: string; // Endpoint; defaults to the official API for brave/bing/tavily, required for json
+  apiKey?: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string>; // Extra query parameters (or body fields for POST)
+  timeout?: number; // Default: SearchConfig.timeout
+  mapping?: JsonSearchMapping; // Required for type 'json'
+}
+
+// Describes an arbitrary JSON search API. Paths use dots, e.g. 'data.items' or 'meta.description'
+export interface JsonSearchMapping {
+  method?: 'GET' | 'POST'; // Default: GET
+  queryParam?: string; // Default: 'q'
+  limitParam?: string; // Omit if the API has no result-count parameter
+  resultsPath: string; // Path to the results array ('' for a top-level array)
+  titlePath: string;
+  urlPath: string;
+  snippetPath?: string;
 }
 
 export interface PersistenceConfig {
   enabled: boolean;
   storagePath: string;
   cacheDuration?: number;
+  searchCacheDuration?: number; // Hours search result lists stay cached (default: 6)
   resumable?: boolean;
 }
 
+export type LLMBackendType = 'openrouter' | 'openai' | 'ollama';
+
+export interface LLMBackendConfig {
+  type?: LLMBackendType; // Default: 'openrouter'
+  baseUrl?: string; // Override the backend's default endpoint (e.g. a vLLM or llama.cpp server)
+  apiKey?: string; // Sent as a Bearer token; omit for unauthenticated local servers
+  headers?: Record<string, string>; // Extra headers merged over the backend defaults
+  modelMap?: Record<string, string>; // Translate pipeline model IDs to backend model names
+  timeout?: number; // Request timeout in ms (default: 120000)
+}
+
 export interface ResearchAgentConfig {
-  openRouterKey: string;
-  searxngConfig: SearchConfig;
+  openRouterKey?: string; // Required unless `llm` points at a non-OpenRouter backend or `providers.llm` is set
+  llm?: LLMBackendConfig;
+  searxngConfig?: SearchConfig; // Required unless `providers.search` is set (SearXNG instances and/or other backends)
   model?: ModelConfig;
   depth?: ResearchDepth;
   persistence?: PersistenceConfig;
   maxConcurrentScrapes?: number;
+  scraper?: ScraperConfig;
+  providers?: ProviderOverrides;
+  cassette?: CassetteConfig; // Record or replay every LLM, search and scraper call
+  sourcePolicy?: SourcePolicy; // Default for every run; ResearchOptions.sourcePolicy overrides it per field
+  localCorpus?: LocalCorpusConfig; // Search local documents alongside (or instead of) the web
+}
+
+// 'primary' - fetch pages directly, using Jina only when that fails
+// 'fallback' - use Jina, fetching directly when Jina fails
+// 'disabled' - Jina only
+export type DirectFetchMode = 'primary' | 'fallback' | 'disabled';
+
+export interface ScraperConfig {
+  directFetch?: DirectFetchMode; // Default: 'fallback'
+  timeout?: number; // Per-request timeout in ms (default: 30000)
+  maxContentLength?: number; // Characters kept per page or document (default: 100000)
+  maxPdfPages?: number; // Pages read from a PDF (default: 50)
+  maxCsvRows?: number; // Data rows kept from a CSV file (default: 200)
+  userAgent?: string; // For direct fetches and robots.txt group matching (default: a desktop Chrome UA)
+  respectRobotsTxt?: boolean; // Skip direct fetches robots.txt disallows (default: true)
+  maxConcurrentPerHost?: number; // Direct fetches to one host at a time (default: 2)
+  maxCrawlDelay?: number; // Cap in seconds on a robots.txt Crawl-delay (default: 30)
+  allowPrivateNetworks?: boolean; // Let direct fetches reach loopback and private addresses (default: false)
+  jina?: JinaConfig;
+}
+
+// Reader options are sent as Jina's X-* request headers
+export interface JinaConfig {
+  apiKey?: string; // Authenticated tier: higher rate limit
+  baseUrl?: string; // Self-hosted reader (default: https://r.jina.ai/)
+  // Default: 20 without an API key, 500 with one, unlimited for a custom baseUrl; 0 = unlimited
+  requestsPerMinute?: number;
+  targetSelector?: string | string[]; // Only extract these elements
+  removeSelector?: string | string[]; // Drop these elements before extraction
+  waitForSelector?: string; // Wait for this element before extracting
+  withImagesSummary?: boolean; // Append a summary of the page's images
+  withLinksSummary?: boolean; // Append a summary of the page's links
+  noCache?: boolean; // Bypass Jina's page cache
+  timeout?: number; // Seconds Jina waits for the page to load
+  headers?: Record<string, string>; // Any other reader headers
+}
+
+// How a page's content was obtained: 'snippet' = every strategy failed, the search snippet was used
+export type ScrapeStrategy = 'jina' | 'direct' | 'local' | 'snippet';
+
+// What a directly fetched response was read as; CSV becomes a markdown table, JSON a code block
+export type DocumentFormat = 'html' | 'pdf' | 'text' | 'json' | 'csv';
+
+// 'mixed' - search the corpus and the web, interleaving their results
+// 'offline' - search only the corpus; searxngConfig is not needed
+export type LocalCorpusMode = 'mixed' | 'offline';
+
+export interface LocalCorpusConfig {
+  directories: string[]; // Searched recursively; hidden directories and node_modules are skipped
+  mode?: LocalCorpusMode; // Default: 'mixed'
+  // Full-text index location (default: corpus-index.db next to persistence.storagePath, else in memory)
+  indexPath?: string;
+  extensions?: string[]; // Default: ['.md', '.markdown', '.txt', '.html', '.htm']
+  maxFileSize?: number; // Bytes; larger files are not indexed (default: 5 MB)
+}
+
+// 'record' - call the real providers and write every request/response to the cassette
+// 'replay' - serve responses from the cassette and fail on any request it doesn't contain
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  path: string;
+  mode: CassetteMode;
+}
+
+// A provider instance, or a factory that builds one from the agent config
+export type ProviderOption<T> = T | ((config: ResearchAgentConfig) => T);
+
+export interface ProviderOverrides {
+  llm?: ProviderOption<LLMProvider>;
+  search?: ProviderOption<SearchProvider>;
+  scraper?: ProviderOption<ScraperProvider>;
+  cache?: ProviderOption<CacheProvider>;
 }
 
 // ============================================================================
@@ -69,8 +282,44 @@ export interface ResearchOptions {
   customPrompts?: Partial<PromptSet>;
   signal?: AbortSignal; // Allow cancellation
   allowPartialResults?: boolean; // Return partial results on error
+  maxRepairAttempts?: number; // Re-prompts after an invalid JSON response (default: 2)
+  onReportChunk?: LLMStreamCallback; // Receive final report tokens as they are generated
+  maxCostUsd?: number; // Hard spending limit for the run (enables cost tracking)
+  maxTokens?: number; // Hard token limit for the run (enables cost tracking)
+  onBudgetExceeded?: BudgetAction; // Default: 'downgrade'
+  currentDate?: Date; // Date given to the prompts (default: now, or the cassette's recording date)
+  searchParams?: SearchParams; // Overrides SearchConfig.defaults for this run
+  sourcePolicy?: SourcePolicy; // Fields set here replace those in ResearchAgentConfig.sourcePolicy
+}
+
+// Domain patterns: 'nih.gov' matches the domain and its subdomains; patterns with '*'
+// are globs over the whole hostname ('*.gov', 'pinterest.*'). A leading 'www.' is ignored.
+export interface SourcePolicy {
+  allowDomains?: string[]; // Only use sources from these domains
+  denyDomains?: string[]; // Never use sources from these domains (checked before allowDomains)
+  maxPerDomain?: number; // Most sources taken from any one hostname over the whole run
+  boostDomains?: string[]; // Scraped and ranked ahead of other sources
+}
+
+export interface FilteredSource {
+  url: string;
+  reason: 'denied' | 'not-allowed' | 'domain-limit' | 'invalid-url';
+  rule?: string; // Deny pattern that matched, or the capped domain
+}
+
+// A source we did not fetch; its content is the search snippet
+export interface SkippedSource {
+  url: string;
+  reason: 'robots-txt';
+  rule: string; // e.g. "Disallow: /private/"
 }
 
+// What to do when the next LLM call would exceed the budget:
+// 'downgrade' - retry with a cheaper tier model, then fall back to 'skip-rounds'
+// 'skip-rounds' - stop researching and write the report from sources collected so far
+// 'stop' - abort and return partial results
+export type BudgetAction = 'downgrade' | 'skip-rounds' | 'stop';
+
 export interface ResearchResult {
   report: string;
   metadata: ResearchMetadata;
@@ -84,17 +333,56 @@ export interface ResearchMetadata {
   costs?: CostBreakdown;
   partial?: boolean; // Indicates if result is partial due to error
   error?: string; // Error message if partial result
+  parseEvents?: ParseEvent[]; // JSON validation failures, repairs and fallbacks
+  budget?: BudgetStatus; // Present when maxCostUsd or maxTokens is set
+  searchCacheHits?: number; // Searches answered from the search-results cache
+  filteredSources?: FilteredSource[]; // Search results dropped by the source policy
+  skippedSources?: SkippedSource[]; // Sources robots.txt disallowed
+  sourceQueries?: Record<string, string[]>; // Source URL -> queries whose results included it
+}
+
+export interface BudgetStatus {
+  maxCostUsd?: number;
+  maxTokens?: number;
+  spentUsd: number;
+  spentTokens: number;
+  exceeded: boolean;
+  action?: 'downgraded' | 'skipped-rounds' | 'stopped'; // Most severe action taken
+  reason?: string;
+  downgrades: Array<{ step: string; from: string; to: string }>;
+}
+
+export interface ParseEvent {
+  step: string;
+  attempt: number; // 0 = original response, 1+ = repair attempts
+  outcome: 'failed' | 'repaired' | 'fallback';
+  model?: string;
+  error?: string;
 }
 
 export interface CostBreakdown {
   totalTokens: number;
-  estimatedCost: number;
-  breakdown: Array<{
-    step: string;
-    model: string;
-    tokens: number;
-    cost: number;
-  }>;
+  estimatedCost: number; // Total cost in USD (measured where available)
+  cacheHits: number;
+  breakdown: CostEntry[];
+  unpricedModels: string[]; // Models with no known pricing; their cost is counted as $0
+}
+
+// 'measured' = token counts reported by the provider, 'estimated' = derived from text length,
+// 'cached' = served from the LLM cache (zero cost)
+export type UsageSource = 'measured' | 'estimated' | 'cached';
+
+export interface CostEntry {
+  step: string;
+  model: string;
+  tokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  source: UsageSource;
+  providerCost: boolean; // Cost was reported by the provider rather than computed from pricing
+  fallbackFrom?: string; // Preferred model that failed before `model` was used
+  unpriced?: boolean; // No pricing known for `model` and none reported by the provider
 }
 
 // ============================================================================
@@ -120,6 +408,9 @@ export interface SearchResult {
   title: string;
   url: string;
   snippet?: string;
+  engines?: string[]; // Engines that returned it, when the backend reports them (SearXNG)
+  fusedScore?: number; // Reciprocal-rank-fusion score across the round's queries and engines
+  queries?: string[]; // Queries whose results included it
 }
 
 export interface ScrapedContent {
@@ -129,6 +420,13 @@ export interface ScrapedContent {
   cached?: boolean;
   qualityScore?: number; // 0-100 score based on content quality
   duplicate?: boolean; // Flag if URL was seen before
+  fusedScore?: number; // From the search results; see SearchResult.fusedScore
+  queries?: string[]; // Queries whose results included it
+  strategy?: ScrapeStrategy; // Absent for content served from the cache
+  format?: DocumentFormat; // Direct fetches only
+  pageCount?: number; // PDFs: pages in the document
+  truncated?: boolean; // Content was cut to the page, row or length limit
+  disallowedBy?: string; // robots.txt rule that kept the page from being fetched
 }
 
 export interface RankedSource {
@@ -147,6 +445,7 @@ export interface PlanningResponse {
     query: string;
     purpose: string;
     priority: number;
+    time_range?: SearchTimeRange; // Only for time-sensitive queries
   }>;
   synthesis_note: string;
 }
@@ -189,30 +488,55 @@ export interface SummaryResponse {
 // ============================================================================
 
 export interface LLMProvider {
-  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMGenerateResult>;
+  generateStream?(prompt: string, options: LLMGenerateOptions, onChunk: LLMStreamCallback): Promise<LLMGenerateResult>;
   estimateTokens(text: string): number;
   getModelInfo(modelId: string): ModelInfo;
 }
 
-export interface LLMGenerateOptions {
+export interface LLMGenerateOptions extends GenerationParams {
   model?: string;
-  temperature?: number;
-  maxTokens?: number;
-  systemPrompt?: string;
+  agentType?: AgentType; // Agent making the call; informational, not sent to the backend
+}
+
+export interface LLMGenerateResult {
+  content: string;
+  usage?: LLMUsage; // Omitted when the backend does not report usage
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number; // USD, when the provider reports it (e.g. OpenRouter usage accounting)
 }
 
+export type LLMStreamCallback = (chunk: string) => void;
+
 export interface ModelInfo {
   id: string;
   pricing: {
-    prompt: number;
+    prompt: number; // USD per 1M tokens
     completion: number;
   };
+  pricingKnown?: boolean; // false when the model is missing from the catalog and built-in table
+  contextLength?: number;
 }
 
 export interface SearchProvider {
-  search(query: string, limit?: number): Promise<SearchResult[]>;
+  search(query: string, limit?: number, params?: SearchParams): Promise<SearchResult[]>;
+  getInstanceHealth?(): InstanceHealth[];
+  getSearchCacheHits?(): number; // Searches answered from the cache so far
+}
+
+// A single search API adapter, normalizing its response to SearchResult
+export interface SearchBackend {
+  readonly name: string;
+  search(query: string, limit: number): Promise<SearchResult[]>;
 }
 
+export type SearchBackendFactory = (config: SearchBackendConfig, defaults: { timeout: number }) => SearchBackend;
+
 export interface ScraperProvider {
   scrape(url: string): Promise<string>;
   scrapeMany(results: SearchResult[]): Promise<ScrapedContent[]>;
@@ -227,6 +551,16 @@ export interface CacheProvider {
   set(key: string, value: string, ttl?: number): Promise<void>;
   has(key: string): Promise<boolean>;
   clear(): Promise<void>;
+  // `params` are part of the key: the same prompt at a different temperature is a different entry
+  getCachedLLM(prompt: string, model: string, params?: GenerationParams): Promise<string | null>;
+  cacheLLM(prompt: string, model: string, response: string, params?: GenerationParams): Promise<void>;
+  // Search result lists, keyed by search backend, normalized query and search parameters
+  getCachedSearch?(backend: string, query: string, params: SearchParams, limit: number): Promise<SearchResult[] | null>;
+  cacheSearch?(backend: string, query: string, params: SearchParams, limit: number, results: SearchResult[]): Promise<void>;
+  // robots.txt bodies keyed by origin ("https://example.com"); '' = no robots.txt
+  getCachedRobots?(origin: string): Promise<string | null>;
+  cacheRobots?(origin: string, content: string): Promise<void>;
+  close?(): void;
 }
 
 export interface SessionState {
@@ -281,6 +615,13 @@ export const DEFAULT_MODELS: Record<ModelTier, string> = {
   large: 'deepseek/deepseek-chat'  // $0.30/$1.20 per 1M tokens
 };
 
+// Price ceilings used by ModelConfig.autoSelect; the priciest model under the ceiling wins
+export const DEFAULT_TIER_CRITERIA: Record<ModelTier, TierSelectionCriteria> = {
+  small: { maxPromptPrice: 0.10, maxCompletionPrice: 0.50, minContextLength: 32768 },
+  medium: { maxPromptPrice: 0.50, maxCompletionPrice: 2.50, minContextLength: 65536 },
+  large: { maxPromptPrice: 2.00, maxCompletionPrice: 8.00, minContextLength: 65536 }
+};
+
 export const DEFAULT_AGENT_TIERS: Record<AgentType, ModelTier> = {
   planner: 'medium',
   parser: 'small',
@@ -290,6 +631,16 @@ export const DEFAULT_AGENT_TIERS: Record<AgentType, ModelTier> = {
   reporter: 'large'
 };
 
+// JSON agents run cool so they stick to the schema; the reporter gets room for long reports
+export const DEFAULT_AGENT_GENERATION: Record<AgentType, GenerationParams> = {
+  planner: { temperature: 0.3 },
+  parser: { temperature: 0.2 },
+  summarizer: { temperature: 0.3 },
+  evaluator: { temperature: 0.3 },
+  filter: { temperature: 0.2 },
+  reporter: { temperature: 0.7, maxTokens: 8192 }
+};
+
 // ============================================================================
 // Prompt Set
 // ============================================================================
@@ -327,6 +678,20 @@ export class SearchError extends ResearchAgentError {
   }
 }
 
+export class BudgetExceededError extends ResearchAgentError {
+  constructor(message: string, details?: any) {
+    super(message, 'BUDGET_EXCEEDED', details);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class CassetteMismatchError extends ResearchAgentError {
+  constructor(message: string, details?: any) {
+    super(message, 'CASSETTE_MISMATCH', details);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
 export class LLMError extends ResearchAgentError {
   constructor(message: string, details?: any) {
     super(message, 'LLM_ERROR', details);
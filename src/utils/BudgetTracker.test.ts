@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BudgetTracker } from './BudgetTracker.js';
+import { CostEstimator } from './CostEstimator.js';
+
+const PRICED = 'meta-llama/llama-3.1-8b-instruct';
+
+describe('BudgetTracker.check', () => {
+  it('allows everything without limits', () => {
+    const tracker = new BudgetTracker({}, new CostEstimator(true));
+    expect(tracker.check('unknown/model', 1_000_000, 1_000_000)).toBeNull();
+  });
+
+  it('projects the call against maxTokens and maxCostUsd', () => {
+    const estimator = new CostEstimator(true);
+    estimator.logUsage('plan', PRICED, 500, 500);
+
+    expect(new BudgetTracker({ maxTokens: 2000 }, estimator).check(PRICED, 500, 500)).toBeNull();
+    expect(new BudgetTracker({ maxTokens: 1500 }, estimator).check(PRICED, 500, 500)).toMatch(/exceeds maxTokens/);
+    expect(new BudgetTracker({ maxCostUsd: 1 }, estimator).check(PRICED, 500, 500)).toBeNull();
+    expect(new BudgetTracker({ maxCostUsd: 0.00001 }, estimator).check(PRICED, 500, 500)).toMatch(/exceeds maxCostUsd/);
+  });
+
+  it('treats unpriced models as over maxCostUsd and warns once per model', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const tracker = new BudgetTracker({ maxCostUsd: 100 }, new CostEstimator(true));
+
+    expect(tracker.check('unknown/model', 10, 10)).toMatch(/No pricing for unknown\/model/);
+    expect(tracker.check('unknown/model', 10, 10)).toMatch(/No pricing/);
+    expect(tracker.check(PRICED, 10, 10)).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+
+  it('only limits unpriced models by tokens when no cost limit is set', () => {
+    const tracker = new BudgetTracker({ maxTokens: 100 }, new CostEstimator(true));
+    expect(tracker.check('unknown/model', 10, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Budget enforcement for a research run
+ * Projects the cost of the next LLM call against maxCostUsd / maxTokens limits
+ */
+
+import type { BudgetStatus } from '../types/index.js';
+import type { CostEstimator } from './CostEstimator.js';
+import { ConsoleFormatter } from './ConsoleFormatter.js';
+
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export class BudgetTracker {
+  private limits: BudgetLimits;
+  private costEstimator: CostEstimator;
+  private status: Pick<BudgetStatus, 'exceeded' | 'action' | 'reason' | 'downgrades'> = {
+    exceeded: false,
+    downgrades: []
+  };
+  private warnedUnpriced: Set<string> = new Set();
+
+  constructor(limits: BudgetLimits, costEstimator: CostEstimator) {
+    this.limits = limits;
+    this.costEstimator = costEstimator;
+  }
+
+  get enabled(): boolean {
+    return this.limits.maxCostUsd !== undefined || this.limits.maxTokens !== undefined;
+  }
+
+  /**
+   * Check whether a call fits in the remaining budget
+   *
+   * @returns null if the call fits, otherwise the reason it doesn't
+   */
+  check(model: string, promptTokens: number, completionTokens: number): string | null {
+    if (!this.enabled) return null;
+
+    const { maxCostUsd, maxTokens } = this.limits;
+
+    if (maxTokens !== undefined) {
+      const projectedTokens = this.costEstimator.getTotalTokens() + promptTokens + completionTokens;
+      if (projectedTokens > maxTokens) {
+        return `Projected ${projectedTokens.toLocaleString()} tokens exceeds maxTokens (${maxTokens.toLocaleString()})`;
+      }
+    }
+
+    if (maxCostUsd !== undefined) {
+      // An unpriced model would be counted as $0, so it could never be stopped; treat it as over budget
+      if (!this.costEstimator.hasPricing(model)) {
+        if (!this.warnedUnpriced.has(model)) {
+          this.warnedUnpriced.add(model);
+          console.warn(ConsoleFormatter.warning(`No pricing for ${model}: it is treated as over maxCostUsd`));
+        }
+        return `No pricing for ${model}, so its cost can't be kept within maxCostUsd ($${maxCostUsd.toFixed(4)})`;
+      }
+
+      const projectedCost = this.costEstimator.getTotalCost() +
+        this.costEstimator.calculateCost(model, promptTokens, completionTokens);
+      if (projectedCost > maxCostUsd) {
+        return `Projected cost $${projectedCost.toFixed(4)} exceeds maxCostUsd ($${maxCostUsd.toFixed(4)})`;
+      }
+    }
+
+    return null;
+  }
+
+  recordDowngrade(step: string, from: string, to: string, reason: string): void {
+    this.status.downgrades.push({ step, from, to });
+    this.recordAction('downgraded', reason);
+  }
+
+  recordAction(action: NonNullable<BudgetStatus['action']>, reason: string): void {
+    const severity = ['downgraded', 'skipped-rounds', 'stopped'];
+    const current = this.status.action ? severity.indexOf(this.status.action) : -1;
+
+    this.status.exceeded = true;
+    if (severity.indexOf(action) >= current) {
+      this.status.action = action;
+      this.status.reason = reason;
+    }
+  }
+
+  getStatus(): BudgetStatus | undefined {
+    if (!this.enabled) return undefined;
+
+    return {
+      ...this.limits,
+      spentUsd: this.costEstimator.getTotalCost(),
+      spentTokens: this.costEstimator.getTotalTokens(),
+      ...this.status,
+      downgrades: [...this.status.downgrades]
+    };
+  }
+}
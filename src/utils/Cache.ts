@@ -1,15 +1,20 @@
 import Database from 'better-sqlite3';
 import { createHash } from 'crypto';
-import type { CacheProvider, PersistenceConfig } from '../types/index.js';
+import type { CacheProvider, GenerationParams, PersistenceConfig, SearchParams, SearchResult } from '../types/index.js';
+
+// robots.txt files are commonly cached for a day (RFC 9309)
+const ROBOTS_CACHE_DURATION = 24 * 60 * 60 * 1000;
 
 export class Cache implements CacheProvider {
   private db: Database.Database | null = null;
   private enabled: boolean;
   private cacheDuration: number;
+  private searchCacheDuration: number;
 
   constructor(config?: PersistenceConfig) {
     this.enabled = config?.enabled ?? false;
     this.cacheDuration = (config?.cacheDuration ?? 24) * 60 * 60 * 1000; // Convert hours to ms
+    this.searchCacheDuration = (config?.searchCacheDuration ?? 6) * 60 * 60 * 1000;
 
     if (this.enabled && config?.storagePath) {
       this.initializeDatabase(config.storagePath);
@@ -20,6 +25,8 @@ export class Cache implements CacheProvider {
     try {
       this.db = new Database(storagePath);
 
+      // search_cache holds scraped pages keyed by URL; search_results holds result lists;
+      // robots_txt holds each site's robots.txt
       this.db.exec(`
         CREATE TABLE IF NOT EXISTS search_cache (
           url TEXT PRIMARY KEY,
@@ -34,6 +41,19 @@ export class Cache implements CacheProvider {
           created_at INTEGER NOT NULL
         );
 
+        CREATE TABLE IF NOT EXISTS search_results (
+          query_hash TEXT PRIMARY KEY,
+          results TEXT NOT NULL,
+          result_limit INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS robots_txt (
+          origin TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          fetched_at INTEGER NOT NULL
+        );
+
         CREATE TABLE IF NOT EXISTS sessions (
           id TEXT PRIMARY KEY,
           state TEXT NOT NULL,
@@ -42,6 +62,8 @@ export class Cache implements CacheProvider {
 
         CREATE INDEX IF NOT EXISTS idx_search_scraped ON search_cache(scraped_at);
         CREATE INDEX IF NOT EXISTS idx_llm_created ON llm_cache(created_at);
+        CREATE INDEX IF NOT EXISTS idx_search_results_created ON search_results(created_at);
+        CREATE INDEX IF NOT EXISTS idx_robots_fetched ON robots_txt(fetched_at);
         CREATE INDEX IF NOT EXISTS idx_session_updated ON sessions(updated_at);
       `);
 
@@ -97,17 +119,17 @@ export class Cache implements CacheProvider {
     if (!this.enabled || !this.db) return;
 
     try {
-      this.db.exec('DELETE FROM search_cache; DELETE FROM llm_cache; DELETE FROM sessions;');
+      this.db.exec('DELETE FROM search_cache; DELETE FROM llm_cache; DELETE FROM search_results; DELETE FROM robots_txt; DELETE FROM sessions;');
     } catch (error) {
       console.warn('Cache clear error:', error);
     }
   }
 
-  async cacheLLM(prompt: string, model: string, response: string): Promise<void> {
+  async cacheLLM(prompt: string, model: string, response: string, params?: GenerationParams): Promise<void> {
     if (!this.enabled || !this.db) return;
 
     try {
-      const hash = this.hashPrompt(prompt, model);
+      const hash = this.hashPrompt(prompt, model, params);
       const now = Date.now();
 
       this.db
@@ -118,11 +140,11 @@ export class Cache implements CacheProvider {
     }
   }
 
-  async getCachedLLM(prompt: string, model: string): Promise<string | null> {
+  async getCachedLLM(prompt: string, model: string, params?: GenerationParams): Promise<string | null> {
     if (!this.enabled || !this.db) return null;
 
     try {
-      const hash = this.hashPrompt(prompt, model);
+      const hash = this.hashPrompt(prompt, model, params);
       const row = this.db
         .prepare('SELECT response, created_at FROM llm_cache WHERE prompt_hash = ?')
         .get(hash) as { response: string; created_at: number } | undefined;
@@ -142,6 +164,85 @@ export class Cache implements CacheProvider {
     }
   }
 
+  /**
+   * Cached results for a search, if an entry asked for at least `limit` results
+   */
+  async getCachedSearch(backend: string, query: string, params: SearchParams, limit: number): Promise<SearchResult[] | null> {
+    if (!this.enabled || !this.db) return null;
+
+    try {
+      const hash = this.hashSearch(backend, query, params);
+      const row = this.db
+        .prepare('SELECT results, result_limit, created_at FROM search_results WHERE query_hash = ?')
+        .get(hash) as { results: string; result_limit: number; created_at: number } | undefined;
+
+      if (!row || row.result_limit < limit) return null;
+
+      const age = Date.now() - row.created_at;
+      if (age > this.searchCacheDuration) {
+        this.db.prepare('DELETE FROM search_results WHERE query_hash = ?').run(hash);
+        return null;
+      }
+
+      return (JSON.parse(row.results) as SearchResult[]).slice(0, limit);
+    } catch (error) {
+      console.warn('Search cache get error:', error);
+      return null;
+    }
+  }
+
+  async cacheSearch(backend: string, query: string, params: SearchParams, limit: number, results: SearchResult[]): Promise<void> {
+    if (!this.enabled || !this.db) return;
+
+    try {
+      const hash = this.hashSearch(backend, query, params);
+      const now = Date.now();
+
+      this.db
+        .prepare('INSERT OR REPLACE INTO search_results (query_hash, results, result_limit, created_at) VALUES (?, ?, ?, ?)')
+        .run(hash, JSON.stringify(results), limit, now);
+    } catch (error) {
+      console.warn('Search cache error:', error);
+    }
+  }
+
+  /**
+   * A site's cached robots.txt; '' means the site has none
+   */
+  async getCachedRobots(origin: string): Promise<string | null> {
+    if (!this.enabled || !this.db) return null;
+
+    try {
+      const row = this.db
+        .prepare('SELECT content, fetched_at FROM robots_txt WHERE origin = ?')
+        .get(origin) as { content: string; fetched_at: number } | undefined;
+
+      if (!row) return null;
+
+      if (Date.now() - row.fetched_at > ROBOTS_CACHE_DURATION) {
+        this.db.prepare('DELETE FROM robots_txt WHERE origin = ?').run(origin);
+        return null;
+      }
+
+      return row.content;
+    } catch (error) {
+      console.warn('robots.txt cache get error:', error);
+      return null;
+    }
+  }
+
+  async cacheRobots(origin: string, content: string): Promise<void> {
+    if (!this.enabled || !this.db) return;
+
+    try {
+      this.db
+        .prepare('INSERT OR REPLACE INTO robots_txt (origin, content, fetched_at) VALUES (?, ?, ?)')
+        .run(origin, content, Date.now());
+    } catch (error) {
+      console.warn('robots.txt cache error:', error);
+    }
+  }
+
   async saveSession(id: string, state: any): Promise<void> {
     if (!this.enabled || !this.db) return;
 
@@ -182,14 +283,33 @@ export class Cache implements CacheProvider {
 
       this.db.prepare('DELETE FROM search_cache WHERE scraped_at < ?').run(cutoff);
       this.db.prepare('DELETE FROM llm_cache WHERE created_at < ?').run(cutoff);
+      this.db.prepare('DELETE FROM search_results WHERE created_at < ?').run(Date.now() - this.searchCacheDuration);
+      this.db.prepare('DELETE FROM robots_txt WHERE fetched_at < ?').run(Date.now() - ROBOTS_CACHE_DURATION);
       // Don't auto-cleanup sessions
     } catch (error) {
       console.warn('Cache cleanup error:', error);
     }
   }
 
-  private hashPrompt(prompt: string, model: string): string {
-    return createHash('sha256').update(`${model}:${prompt}`).digest('hex');
+  private hashPrompt(prompt: string, model: string, params?: GenerationParams): string {
+    // Sort keys so equivalent params always hash the same; no params keeps the original key format
+    const definedParams = Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    const paramsKey = definedParams.length > 0 ? `${JSON.stringify(definedParams)}:` : '';
+
+    return createHash('sha256').update(`${model}:${paramsKey}${prompt}`).digest('hex');
+  }
+
+  // Case and whitespace don't change a query; parameters do
+  private hashSearch(backend: string, query: string, params: SearchParams): string {
+    const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const definedParams = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+      .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+    return createHash('sha256').update(`${backend}:${JSON.stringify(definedParams)}:${normalizedQuery}`).digest('hex');
   }
 
   close(): void {
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Cassette } from './Cassette.js';
+import { CassetteMismatchError } from '../types/index.js';
+
+let directory: string;
+let path: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'cassette-test-'));
+  path = join(directory, 'nested', 'run.json');
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('Cassette.fingerprint', () => {
+  it('ignores key order and undefined values', () => {
+    expect(Cassette.fingerprint('llm', { prompt: 'p', options: { model: 'm', temperature: undefined } }))
+      .toBe(Cassette.fingerprint('llm', { options: { model: 'm' }, prompt: 'p' }));
+  });
+
+  it('distinguishes call kinds and values', () => {
+    expect(Cassette.fingerprint('scrape', { url: 'a' })).not.toBe(Cassette.fingerprint('search', { url: 'a' }));
+    expect(Cassette.fingerprint('scrape', { url: 'a' })).not.toBe(Cassette.fingerprint('scrape', { url: 'b' }));
+  });
+
+  it('keeps array order significant', () => {
+    expect(Cassette.fingerprint('search', { q: ['a', 'b'] })).not.toBe(Cassette.fingerprint('search', { q: ['b', 'a'] }));
+  });
+});
+
+describe('Cassette record and replay', () => {
+  it('writes every call to disk while recording', async () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    await recorder.call('scrape', { url: 'https://a.example' }, async () => 'page a');
+
+    const file = JSON.parse(readFileSync(path, 'utf-8'));
+    expect(file.version).toBe(1);
+    expect(file.interactions).toHaveLength(1);
+    expect(file.interactions[0]).toMatchObject({ kind: 'scrape', request: { url: 'https://a.example' }, response: 'page a' });
+  });
+
+  it('replays identical requests in recorded order without executing them', async () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    await recorder.call('llm', { prompt: 'p' }, async () => 'first');
+    await recorder.call('llm', { prompt: 'p' }, async () => 'second');
+
+    const player = new Cassette({ path, mode: 'replay' });
+    const execute = async () => {
+      throw new Error('should not run');
+    };
+
+    expect(await player.call('llm', { prompt: 'p' }, execute)).toBe('first');
+    expect(await player.call('llm', { prompt: 'p' }, execute)).toBe('second');
+    expect(player.recordedAt.toISOString()).toBe(recorder.recordedAt.toISOString());
+  });
+
+  it('re-throws recorded errors', async () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    const failure = Object.assign(new Error('rate limited'), { code: 'RATE_LIMIT' });
+    await expect(recorder.call('search', { query: 'q' }, async () => { throw failure; })).rejects.toThrow('rate limited');
+
+    const player = new Cassette({ path, mode: 'replay' });
+    await expect(player.call('search', { query: 'q' }, async () => [])).rejects.toMatchObject({
+      message: 'rate limited',
+      code: 'RATE_LIMIT'
+    });
+  });
+
+  it('throws and remembers a mismatch for unrecorded requests', async () => {
+    const recorder = new Cassette({ path, mode: 'record' });
+    await recorder.call('llm', { prompt: 'recorded' }, async () => 'ok');
+
+    const player = new Cassette({ path, mode: 'replay' });
+    await expect(player.call('llm', { prompt: 'other' }, async () => 'live')).rejects.toBeInstanceOf(CassetteMismatchError);
+
+    const misses = player.takeMisses();
+    expect(misses).toHaveLength(1);
+    expect(misses[0].details).toMatchObject({ kind: 'llm', request: { prompt: 'other' } });
+    expect(player.takeMisses()).toEqual([]);
+  });
+
+  it('refuses to replay a missing cassette', () => {
+    expect(() => new Cassette({ path, mode: 'replay' })).toThrow(/Cassette not found/);
+  });
+});
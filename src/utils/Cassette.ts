@@ -0,0 +1,182 @@
+/**
+ * Cassette file for recording and replaying provider calls
+ * Requests are matched by fingerprint; repeated identical requests replay in recorded order
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { CassetteConfig, CassetteMode } from '../types/index.js';
+import { CassetteMismatchError } from '../types/index.js';
+
+export type CassetteCallKind = 'llm' | 'search' | 'scrape' | 'scrapeMany';
+
+interface RecordedError {
+  name: string;
+  message: string;
+  code?: string;
+  details?: any;
+}
+
+interface CassetteInteraction {
+  kind: CassetteCallKind;
+  fingerprint: string;
+  request: unknown;
+  response?: unknown;
+  error?: RecordedError;
+}
+
+interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  readonly recordedAt: Date;
+  private interactions: CassetteInteraction[] = [];
+  private replayed: Set<number> = new Set();
+  private misses: CassetteMismatchError[] = [];
+
+  constructor(config: CassetteConfig) {
+    this.mode = config.mode;
+    this.path = config.path;
+
+    if (this.mode === 'replay') {
+      const file = this.load();
+      this.recordedAt = new Date(file.recordedAt);
+      this.interactions = file.interactions;
+    } else {
+      // Recording always starts a fresh cassette
+      this.recordedAt = new Date();
+      this.save();
+    }
+  }
+
+  /**
+   * Record the result of `execute`, or replay the recorded result for this request
+   *
+   * Recorded errors are re-thrown on replay. Unmatched requests throw CassetteMismatchError.
+   */
+  async call<T>(kind: CassetteCallKind, request: unknown, execute: () => Promise<T>): Promise<T> {
+    const fingerprint = Cassette.fingerprint(kind, request);
+
+    if (this.mode === 'replay') {
+      return this.replay<T>(kind, fingerprint, request);
+    }
+
+    try {
+      const response = await execute();
+      this.interactions.push({ kind, fingerprint, request, response });
+      this.save();
+      return response;
+    } catch (error: any) {
+      this.interactions.push({ kind, fingerprint, request, error: this.serializeError(error) });
+      this.save();
+      throw error;
+    }
+  }
+
+  /**
+   * Unmatched requests seen since the last call, so a run that swallowed them can still fail
+   */
+  takeMisses(): CassetteMismatchError[] {
+    const misses = this.misses;
+    this.misses = [];
+    return misses;
+  }
+
+  static fingerprint(kind: CassetteCallKind, request: unknown): string {
+    return createHash('sha256')
+      .update(`${kind}:${Cassette.stableStringify(request)}`)
+      .digest('hex');
+  }
+
+  private replay<T>(kind: CassetteCallKind, fingerprint: string, request: unknown): T {
+    const index = this.interactions.findIndex((interaction, i) =>
+      interaction.fingerprint === fingerprint && !this.replayed.has(i)
+    );
+
+    if (index === -1) {
+      const miss = new CassetteMismatchError(
+        `No recorded ${kind} call in cassette ${this.path} matches this request`,
+        { kind, fingerprint, request }
+      );
+      this.misses.push(miss);
+      throw miss;
+    }
+
+    this.replayed.add(index);
+    const interaction = this.interactions[index];
+
+    if (interaction.error) {
+      throw Object.assign(new Error(interaction.error.message), interaction.error);
+    }
+
+    return interaction.response as T;
+  }
+
+  private load(): CassetteFile {
+    if (!existsSync(this.path)) {
+      throw new Error(`Cassette not found: ${this.path} (record one with mode: 'record')`);
+    }
+
+    try {
+      const file = JSON.parse(readFileSync(this.path, 'utf-8')) as CassetteFile;
+
+      if (!Array.isArray(file.interactions)) {
+        throw new Error('missing "interactions" array');
+      }
+
+      return file;
+    } catch (error: any) {
+      throw new Error(`Failed to load cassette ${this.path}: ${error.message}`);
+    }
+  }
+
+  private save(): void {
+    const file: CassetteFile = {
+      version: 1,
+      recordedAt: this.recordedAt.toISOString(),
+      interactions: this.interactions
+    };
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2));
+  }
+
+  private serializeError(error: any): RecordedError {
+    let details: any;
+    try {
+      details = error?.details === undefined ? undefined : JSON.parse(JSON.stringify(error.details));
+    } catch {
+      details = undefined; // Not serializable (e.g. circular axios internals)
+    }
+
+    return {
+      name: error?.name ?? 'Error',
+      message: error?.message ?? String(error),
+      code: typeof error?.code === 'string' ? error.code : undefined,
+      details
+    };
+  }
+
+  // JSON with sorted keys and undefined values dropped, so equivalent requests hash the same
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => Cassette.stableStringify(item ?? null)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined && typeof v !== 'function')
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => `${JSON.stringify(k)}:${Cassette.stableStringify(v)}`);
+      return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
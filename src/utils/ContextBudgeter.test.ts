@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { ContextBudgeter, DEFAULT_CONTEXT_LENGTH } from './ContextBudgeter.js';
+
+describe('ContextBudgeter.getContextLength', () => {
+  it('prefers explicit lengths, then the lookup, then the built-in table', () => {
+    const budgeter = new ContextBudgeter({ 'a/model': 1000 }, model => (model === 'b/model' ? 2000 : undefined));
+
+    expect(budgeter.getContextLength('a/model')).toBe(1000);
+    expect(budgeter.getContextLength('b/model')).toBe(2000);
+    expect(budgeter.getContextLength('openai/gpt-4o-mini')).toBe(128000);
+    expect(budgeter.getContextLength('unknown/model')).toBe(DEFAULT_CONTEXT_LENGTH);
+  });
+
+  it('ignores non-positive lookup results', () => {
+    const budgeter = new ContextBudgeter({}, () => 0);
+    expect(budgeter.getContextLength('openai/gpt-4o-mini')).toBe(128000);
+  });
+});
+
+describe('ContextBudgeter.availableChars', () => {
+  it('uses the smallest window in the chain and reserves prompt and completion', () => {
+    const budgeter = new ContextBudgeter({ small: 10000, large: 100000 });
+    const prompt = 'x'.repeat(4000); // 1000 tokens
+
+    // 10000 * 0.9 usable - 1000 prompt - 2000 completion = 6000 tokens
+    expect(budgeter.availableChars(['large', 'small'], prompt, 2000)).toBe(6000 * 4);
+  });
+
+  it('never goes negative', () => {
+    const budgeter = new ContextBudgeter({ tiny: 1000 });
+    expect(budgeter.availableChars(['tiny'], 'x'.repeat(10000), 4096)).toBe(0);
+  });
+});
+
+describe('ContextBudgeter.allocate', () => {
+  const budgeter = new ContextBudgeter();
+
+  it('gives every source its full length when the budget allows', () => {
+    expect(budgeter.allocate([3000, 5000, 4000], 100000)).toEqual([3000, 5000, 4000]);
+  });
+
+  it('favours higher-ranked sources when content must be cut', () => {
+    const allocation = budgeter.allocate([20000, 20000, 20000], 30000);
+
+    expect(allocation.reduce((sum, chars) => sum + chars, 0)).toBeLessThanOrEqual(30000);
+    expect(allocation[0]).toBeGreaterThan(allocation[1]);
+    expect(allocation[1]).toBeGreaterThan(allocation[2]);
+  });
+
+  it('hands the room a short source leaves over to the others', () => {
+    const allocation = budgeter.allocate([1000, 20000, 20000], 21000);
+
+    expect(allocation[0]).toBe(1000);
+    // Shares are floored, so a few characters may go unused
+    expect(allocation[1] + allocation[2]).toBeLessThanOrEqual(20000);
+    expect(allocation[1] + allocation[2]).toBeGreaterThan(19990);
+  });
+
+  it('gives an empty source nothing without shifting the allocations after it', () => {
+    const allocation = budgeter.allocate([3000, 0, 5000, 4000], 100000);
+    expect(allocation).toEqual([3000, 0, 5000, 4000]);
+  });
+
+  it('charges the per-source overhead', () => {
+    const allocation = budgeter.allocate([5000, 5000], 10000, 500);
+    expect(allocation.reduce((sum, chars) => sum + chars, 0)).toBeLessThanOrEqual(10000 - 2 * 500);
+  });
+
+  it('drops low-ranked sources rather than cutting every source to a stub', () => {
+    // 500 tokens (2000 chars) is the smallest useful slice
+    const allocation = budgeter.allocate([10000, 10000, 10000], 5000);
+
+    expect(allocation[2]).toBe(0);
+    expect(allocation.filter(chars => chars > 0).every(chars => chars >= 2000)).toBe(true);
+  });
+
+  it('gives the top source whatever fits when no useful slice does', () => {
+    expect(budgeter.allocate([10000, 10000], 1500, 100)).toEqual([1400, 0]);
+  });
+});
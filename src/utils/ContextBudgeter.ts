@@ -0,0 +1,118 @@
+/**
+ * Context window budgeting
+ * Fits source content into a model's context window, giving higher-ranked sources more room
+ */
+
+const CHARS_PER_TOKEN = 4; // Same heuristic as LLMProvider.estimateTokens
+
+// Assumed context length for models we know nothing about
+export const DEFAULT_CONTEXT_LENGTH = 32768;
+
+// Context lengths (tokens) for the default models
+const KNOWN_CONTEXT_LENGTHS: Record<string, number> = {
+  'meta-llama/llama-3.1-8b-instruct': 131072,
+  'google/gemini-2.5-flash-preview-09-2025': 1048576,
+  'deepseek/deepseek-chat': 163840,
+  'deepseek/deepseek-chat-v3.1': 163840,
+  'deepseek/deepseek-reasoner': 163840,
+  'openai/gpt-4o-mini': 128000,
+  'qwen/qwen-2.5-72b-instruct': 32768
+};
+
+// Sources that can't get at least this many tokens are dropped rather than cut to a stub
+const MIN_SOURCE_TOKENS = 500;
+
+// Fraction of the window kept free to absorb token estimation error
+const SAFETY_MARGIN = 0.1;
+
+export class ContextBudgeter {
+  private contextLengths: Record<string, number>;
+  private lookup?: (model: string) => number | undefined;
+
+  /**
+   * @param contextLengths - Explicit context lengths by model ID, taking precedence over everything else
+   * @param lookup - Secondary source (e.g. the model catalog), consulted before the built-in table
+   */
+  constructor(contextLengths: Record<string, number> = {}, lookup?: (model: string) => number | undefined) {
+    this.contextLengths = contextLengths;
+    this.lookup = lookup;
+  }
+
+  getContextLength(model: string): number {
+    const fromLookup = this.lookup?.(model);
+
+    return this.contextLengths[model] ??
+      (fromLookup && fromLookup > 0 ? fromLookup : undefined) ??
+      KNOWN_CONTEXT_LENGTHS[model] ??
+      DEFAULT_CONTEXT_LENGTH;
+  }
+
+  /**
+   * Characters available for variable content once the fixed prompt and completion are reserved
+   *
+   * @param models - Every model the prompt may be sent to; the smallest window wins
+   */
+  availableChars(models: string[], fixedPrompt: string, completionTokens: number): number {
+    const contextLength = Math.min(...models.map(model => this.getContextLength(model)));
+    const usable = Math.floor(contextLength * (1 - SAFETY_MARGIN));
+    const fixedTokens = Math.ceil(fixedPrompt.length / CHARS_PER_TOKEN);
+
+    return Math.max(0, (usable - fixedTokens - completionTokens) * CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Split a character budget across ranked sources
+   *
+   * Uses weighted water-filling: each source gets a share proportional to its
+   * rank weight, sources shorter than their share keep their full length, and
+   * the leftover is redistributed to the rest.
+   *
+   * @param lengths - Content length of each source, highest rank first
+   * @param budgetChars - Total characters available
+   * @param separatorChars - Per-source overhead (headers, URLs, separators)
+   * @returns Characters allotted per source; 0 means the source is dropped
+   */
+  allocate(lengths: number[], budgetChars: number, separatorChars: number = 0): number[] {
+    const minChars = MIN_SOURCE_TOKENS * CHARS_PER_TOKEN;
+
+    // Keep as many top-ranked sources as can each get a useful slice
+    for (let count = lengths.length; count > 0; count--) {
+      const kept = lengths.slice(0, count);
+      const shares = this.waterFill(kept, budgetChars - count * separatorChars);
+
+      if (shares.every((share, i) => share >= Math.min(kept[i], minChars))) {
+        return lengths.map((_, i) => shares[i] ?? 0);
+      }
+    }
+
+    // Not even one useful slice fits: give the top source whatever room there is
+    return lengths.map((length, i) => (i === 0 ? Math.max(0, Math.min(length, budgetChars - separatorChars)) : 0));
+  }
+
+  private waterFill(lengths: number[], budgetChars: number): number[] {
+    const allocation = lengths.map(() => 0);
+    const weight = (rank: number) => 1 / (1 + rank * 0.25);
+    let remaining = budgetChars;
+    let active = lengths.map((_, i) => i);
+
+    while (active.length > 0 && remaining > 0) {
+      const totalWeight = active.reduce((sum, i) => sum + weight(i), 0);
+      const satisfied = active.filter(i => lengths[i] <= (remaining * weight(i)) / totalWeight);
+
+      if (satisfied.length === 0) {
+        active.forEach(i => {
+          allocation[i] = Math.floor((remaining * weight(i)) / totalWeight);
+        });
+        break;
+      }
+
+      satisfied.forEach(i => {
+        allocation[i] = lengths[i];
+        remaining -= lengths[i];
+      });
+      active = active.filter(i => !satisfied.includes(i));
+    }
+
+    return allocation;
+  }
+}
@@ -1,50 +1,75 @@
-import type { CostBreakdown } from '../types/index.js';
+import type { CostBreakdown, CostEntry, UsageSource } from '../types/index.js';
+import { PricingRegistry } from './PricingRegistry.js';
 
 interface UsageEntry {
   step: string;
   model: string;
   promptTokens: number;
   completionTokens: number;
+  source: UsageSource;
+  cost?: number; // Provider-reported cost, overrides pricing table
+  fallbackFrom?: string;
 }
 
-// Model pricing per 1M tokens (prompt, completion)
-// Updated: 2025-12-09
-const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
-  'meta-llama/llama-3.1-8b-instruct': { prompt: 0.02, completion: 0.03 },
-  'google/gemini-2.5-flash-preview-09-2025': { prompt: 0.30, completion: 2.50 },
-  'deepseek/deepseek-chat': { prompt: 0.30, completion: 1.20 },
-  'deepseek/deepseek-chat-v3.1': { prompt: 0.15, completion: 0.75 },
-  'deepseek/deepseek-reasoner': { prompt: 0.55, completion: 2.19 },
-  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
-  'qwen/qwen-2.5-72b-instruct': { prompt: 0.35, completion: 0.40 },
-  // Fallback for old model IDs
-  'google/gemini-flash-1.5': { prompt: 0.30, completion: 2.50 }
-};
+export interface UsageDetails {
+  measured?: boolean; // Token counts came from the provider response
+  cost?: number; // Provider-reported cost in USD
+  fallbackFrom?: string; // Preferred model that failed before this one was used
+}
 
 export class CostEstimator {
   private usageLog: UsageEntry[] = [];
   private enabled: boolean;
+  private pricing: PricingRegistry;
 
-  constructor(enabled: boolean = false) {
+  constructor(enabled: boolean = false, pricing: PricingRegistry = new PricingRegistry()) {
     this.enabled = enabled;
+    this.pricing = pricing;
   }
 
-  logUsage(step: string, model: string, promptTokens: number, completionTokens: number): void {
+  logUsage(
+    step: string,
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    details: UsageDetails = {}
+  ): void {
     if (!this.enabled) return;
 
     this.usageLog.push({
       step,
       model,
       promptTokens,
-      completionTokens
+      completionTokens,
+      source: details.measured ? 'measured' : 'estimated',
+      cost: details.cost,
+      fallbackFrom: details.fallbackFrom
+    });
+  }
+
+  /**
+   * Record a response served from the LLM cache as a zero-cost entry
+   */
+  logCacheHit(step: string, model: string, fallbackFrom?: string): void {
+    if (!this.enabled) return;
+
+    this.usageLog.push({
+      step,
+      model,
+      promptTokens: 0,
+      completionTokens: 0,
+      source: 'cached',
+      cost: 0,
+      fallbackFrom
     });
   }
 
+  hasPricing(model: string): boolean {
+    return this.pricing.hasPricing(model);
+  }
+
   calculateCost(model: string, promptTokens: number, completionTokens: number): number {
-    const pricing = MODEL_PRICING[model] || { prompt: 0, completion: 0 };
-    const promptCost = (promptTokens / 1_000_000) * pricing.prompt;
-    const completionCost = (completionTokens / 1_000_000) * pricing.completion;
-    return promptCost + completionCost;
+    return this.pricing.calculateCost(model, promptTokens, completionTokens);
   }
 
   estimateTokens(text: string): number {
@@ -54,25 +79,37 @@ export class CostEstimator {
   getBreakdown(): CostBreakdown | undefined {
     if (!this.enabled || this.usageLog.length === 0) return undefined;
 
-    const breakdown = this.usageLog.map(entry => {
-      const cost = this.calculateCost(entry.model, entry.promptTokens, entry.completionTokens);
+    const breakdown = this.usageLog.map((entry): CostEntry => {
+      const providerCost = entry.source !== 'cached' && entry.cost !== undefined;
+      const cost = entry.cost ?? this.calculateCost(entry.model, entry.promptTokens, entry.completionTokens);
       const tokens = entry.promptTokens + entry.completionTokens;
+      const unpriced = entry.cost === undefined && !this.pricing.hasPricing(entry.model);
 
       return {
         step: entry.step,
         model: entry.model,
         tokens,
-        cost
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        cost,
+        source: entry.source,
+        providerCost,
+        ...(entry.fallbackFrom ? { fallbackFrom: entry.fallbackFrom } : {}),
+        ...(unpriced ? { unpriced } : {})
       };
     });
 
     const totalTokens = breakdown.reduce((sum, entry) => sum + entry.tokens, 0);
     const estimatedCost = breakdown.reduce((sum, entry) => sum + entry.cost, 0);
+    const cacheHits = breakdown.filter(entry => entry.source === 'cached').length;
+    const unpricedModels = [...new Set(breakdown.filter(entry => entry.unpriced).map(entry => entry.model))];
 
     return {
       totalTokens,
       estimatedCost,
-      breakdown
+      cacheHits,
+      breakdown,
+      unpricedModels
     };
   }
 
@@ -84,14 +121,18 @@ export class CostEstimator {
     output += '─'.repeat(60) + '\n';
 
     breakdown.breakdown.forEach(entry => {
-      const costStr = `$${entry.cost.toFixed(4)}`;
+      const costStr = entry.unpriced ? '$?.????' : `$${entry.cost.toFixed(4)}`;
       const tokensStr = entry.tokens.toLocaleString();
-      output += `  ${entry.step.padEnd(20)} | ${entry.model.padEnd(25)} | ${tokensStr.padStart(8)} tokens | ${costStr}\n`;
+      output += `  ${entry.step.padEnd(20)} | ${entry.model.padEnd(25)} | ${tokensStr.padStart(8)} tokens | ${costStr} (${entry.source})\n`;
     });
 
     output += '─'.repeat(60) + '\n';
     output += `  Total: ${breakdown.totalTokens.toLocaleString()} tokens | $${breakdown.estimatedCost.toFixed(4)}\n`;
 
+    if (breakdown.unpricedModels.length > 0) {
+      output += `  ⚠️  No pricing for ${breakdown.unpricedModels.join(', ')} (counted as $0)\n`;
+    }
+
     return output;
   }
 
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentExtractor } from './DocumentExtractor.js';
+
+const limits = { maxPdfPages: 50, maxCsvRows: 200 };
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+// A minimal PDF with one line of Helvetica text per page
+function pdf(pages: string[]): Uint8Array {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let file = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = file.length;
+    file += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return bytes(file);
+}
+
+describe('DocumentExtractor.formatFromUrl', () => {
+  it('maps document extensions, ignoring case and query strings', () => {
+    expect(DocumentExtractor.formatFromUrl('https://a.example/Report.PDF?download=1')).toBe('pdf');
+    expect(DocumentExtractor.formatFromUrl('https://a.example/data.tsv')).toBe('csv');
+    expect(DocumentExtractor.formatFromUrl('https://a.example/notes.md')).toBe('text');
+  });
+
+  it('returns null for pages and unparseable URLs', () => {
+    expect(DocumentExtractor.formatFromUrl('https://a.example/article.html')).toBeNull();
+    expect(DocumentExtractor.formatFromUrl('https://a.example/')).toBeNull();
+    expect(DocumentExtractor.formatFromUrl('not a url')).toBeNull();
+  });
+});
+
+describe('DocumentExtractor.detectFormat', () => {
+  it('trusts the PDF magic number over the content type', () => {
+    expect(DocumentExtractor.detectFormat('application/octet-stream', 'https://a.example/file', bytes('%PDF-1.7\n'))).toBe('pdf');
+  });
+
+  it('uses specific content types', () => {
+    const url = 'https://a.example/file';
+    expect(DocumentExtractor.detectFormat('text/html; charset=utf-8', url, bytes('<p>'))).toBe('html');
+    expect(DocumentExtractor.detectFormat('application/ld+json', url, bytes('{}'))).toBe('json');
+    expect(DocumentExtractor.detectFormat('text/csv', url, bytes('a,b'))).toBe('csv');
+    expect(DocumentExtractor.detectFormat('text/markdown', url, bytes('# A'))).toBe('text');
+    expect(DocumentExtractor.detectFormat('image/png', url, bytes('\x89PNG'))).toBeNull();
+  });
+
+  it('falls back to the extension, then the content, for generic types', () => {
+    expect(DocumentExtractor.detectFormat('text/plain', 'https://a.example/data.csv', bytes('a,b'))).toBe('csv');
+    expect(DocumentExtractor.detectFormat('', 'https://a.example/page', bytes('<!DOCTYPE html><html>'))).toBe('html');
+    expect(DocumentExtractor.detectFormat('', 'https://a.example/page', bytes('plain words'))).toBe('text');
+    expect(DocumentExtractor.detectFormat('application/octet-stream', 'https://a.example/blob', bytes('\x00\x01\x02'))).toBeNull();
+  });
+});
+
+describe('DocumentExtractor.extract', () => {
+  it('renders CSV as a markdown table, escaping pipes and honouring quotes', async () => {
+    const csv = 'name,notes\n"Smith, J","says ""hi"""\nLee,a|b\n';
+    const document = await DocumentExtractor.extract(bytes(csv), 'csv', 'text/csv', limits);
+
+    expect(document).toEqual({
+      content: '| name | notes |\n| --- | --- |\n| Smith, J | says "hi" |\n| Lee | a\\|b |',
+      format: 'csv',
+      truncated: false
+    });
+  });
+
+  it('detects semicolon and tab delimiters and notes dropped rows', async () => {
+    const csv = 'a;b\n1;2\n3;4\n5;6';
+    const document = await DocumentExtractor.extract(bytes(csv), 'csv', 'text/csv', { ...limits, maxCsvRows: 2 });
+
+    expect(document.content).toContain('| 1 | 2 |');
+    expect(document.content).not.toContain('| 5 | 6 |');
+    expect(document.content).toContain('_First 2 of 3 rows._');
+    expect(document.truncated).toBe(true);
+
+    const tsv = await DocumentExtractor.extract(bytes('x\ty\n1\t2'), 'csv', 'text/tab-separated-values', limits);
+    expect(tsv.content).toContain('| x | y |');
+  });
+
+  it('pretty-prints JSON in a code fence and keeps invalid JSON as text', async () => {
+    const json = await DocumentExtractor.extract(bytes('{"a":[1,2]}'), 'json', 'application/json', limits);
+    expect(json.content).toBe('```json\n{\n  "a": [\n    1,\n    2\n  ]\n}\n```');
+
+    const lines = await DocumentExtractor.extract(bytes('{"a":1}\n{"a":2}\n'), 'json', 'application/json', limits);
+    expect(lines.content).toBe('{"a":1}\n{"a":2}');
+  });
+
+  it('decodes text by the declared charset', async () => {
+    const latin1 = new Uint8Array([0x63, 0x61, 0x66, 0xe9]); // "café"
+    const document = await DocumentExtractor.extract(latin1, 'text', 'text/plain; charset=iso-8859-1', limits);
+
+    expect(document.content).toBe('café');
+  });
+
+  it('reads the text layer of a PDF up to the page limit', async () => {
+    const document = await DocumentExtractor.extract(pdf(['First page', 'Second page', 'Third page']), 'pdf', 'application/pdf', {
+      ...limits,
+      maxPdfPages: 2
+    });
+
+    expect(document.content).toBe('First page\n\nSecond page');
+    expect(document.pageCount).toBe(3);
+    expect(document.truncated).toBe(true);
+  });
+
+  it('fails on a PDF without text', async () => {
+    await expect(DocumentExtractor.extract(pdf(['']), 'pdf', 'application/pdf', limits)).rejects.toThrow('no text layer');
+  });
+});
+
+describe('DocumentExtractor.garbledRatio', () => {
+  it('measures replacement and control characters', () => {
+    expect(DocumentExtractor.garbledRatio('')).toBe(0);
+    expect(DocumentExtractor.garbledRatio('clean text\n\twith whitespace')).toBe(0);
+    expect(DocumentExtractor.garbledRatio('ab�\u0001')).toBe(0.5);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Content-type detection and text extraction for fetched documents
+ * HTML goes through ReadabilityExtractor; PDFs are read with pdf.js (via unpdf, loaded on first use)
+ */
+
+import type { DocumentFormat } from '../types/index.js';
+import { ReadabilityExtractor } from './ReadabilityExtractor.js';
+
+export interface ExtractedDocument {
+  content: string; // Markdown or plain text
+  format: DocumentFormat;
+  pageCount?: number; // PDFs only: pages in the file, not just the ones read
+  truncated?: boolean;
+}
+
+export interface ExtractionLimits {
+  maxPdfPages: number;
+  maxCsvRows: number;
+}
+
+// URL path extensions worth fetching ourselves rather than through a reader service
+const DOCUMENT_EXTENSIONS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.json': 'json',
+  '.txt': 'text',
+  '.md': 'text',
+  '.markdown': 'text'
+};
+
+// Unicode replacement and C0 control characters (other than whitespace) mark undecoded binary
+const GARBLED_CHARACTER = /[\uFFFD\u0000-\u0008\u000B\u000C\u000E-\u001F]/;
+
+export class DocumentExtractor {
+  /**
+   * Decide how to read a response from its Content-Type, its first bytes and the URL
+   *
+   * @returns null for formats we cannot extract text from (images, archives, ...)
+   */
+  static detectFormat(contentType: string, url: string, body: Uint8Array): DocumentFormat | null {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    const head = Buffer.from(body.subarray(0, 512)).toString('latin1');
+
+    // Servers often label PDFs as octet-stream, so the magic number wins
+    if (head.startsWith('%PDF-')) return 'pdf';
+    if (type === 'application/pdf') return 'pdf';
+    if (/html|xml/.test(type)) return 'html';
+    if (type === 'application/json' || type.endsWith('+json')) return 'json';
+    if (type === 'text/csv' || type === 'text/tab-separated-values') return 'csv';
+
+    // Generic types: trust the extension, then the content
+    if (!type || type === 'text/plain' || type === 'application/octet-stream') {
+      const byExtension = DocumentExtractor.formatFromUrl(url);
+      if (byExtension && byExtension !== 'pdf') return byExtension;
+      if (/^\s*<(!doctype html|html|head|body)\b/i.test(head)) return 'html';
+      if (type === 'text/plain') return 'text';
+      if (!type && !GARBLED_CHARACTER.test(head)) return 'text';
+      return null;
+    }
+
+    if (type.startsWith('text/')) return 'text';
+    return null;
+  }
+
+  /**
+   * The document format a URL's path extension suggests, if any
+   */
+  static formatFromUrl(url: string): DocumentFormat | null {
+    try {
+      const path = new URL(url).pathname.toLowerCase();
+      const extension = path.slice(path.lastIndexOf('.'));
+      return DOCUMENT_EXTENSIONS[extension] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  static async extract(body: Uint8Array, format: DocumentFormat, contentType: string, limits: ExtractionLimits): Promise<ExtractedDocument> {
+    if (format === 'pdf') {
+      return DocumentExtractor.extractPdf(body, limits.maxPdfPages);
+    }
+
+    const text = DocumentExtractor.decode(body, contentType);
+
+    switch (format) {
+      case 'html':
+        return { content: ReadabilityExtractor.extract(text).markdown, format };
+      case 'json':
+        return { content: DocumentExtractor.formatJson(text), format };
+      case 'csv':
+        return { ...DocumentExtractor.csvToMarkdown(text, limits.maxCsvRows), format };
+      default:
+        return { content: text.trim(), format };
+    }
+  }
+
+  /**
+   * Share of characters that look like undecoded binary
+   */
+  static garbledRatio(text: string): number {
+    if (text.length === 0) return 0;
+    return (text.match(new RegExp(GARBLED_CHARACTER, 'g')) ?? []).length / text.length;
+  }
+
+  private static async extractPdf(body: Uint8Array, maxPages: number): Promise<ExtractedDocument> {
+    const { getDocumentProxy } = await import('unpdf');
+    const pdf = await getDocumentProxy(new Uint8Array(body));
+
+    try {
+      const pageCount = pdf.numPages;
+      const pages: string[] = [];
+
+      for (let number = 1; number <= Math.min(pageCount, maxPages); number++) {
+        const page = await pdf.getPage(number);
+        const { items } = await page.getTextContent();
+        const text = items
+          .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+          .join('');
+        pages.push(DocumentExtractor.cleanPdfText(text));
+      }
+
+      const content = pages.filter(page => page.length > 0).join('\n\n');
+      if (content.length === 0) {
+        throw new Error('PDF has no text layer (it may be scanned)');
+      }
+
+      return { content, format: 'pdf', pageCount, truncated: pageCount > maxPages };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // pdf.js yields one line per text line: rejoin hyphenated words and drop blank runs
+  private static cleanPdfText(text: string): string {
+    return text
+      .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private static decode(body: Uint8Array, contentType: string): string {
+    const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+    try {
+      return new TextDecoder(charset ?? 'utf-8').decode(body);
+    } catch {
+      return new TextDecoder('utf-8').decode(body); // Unknown charset label
+    }
+  }
+
+  private static formatJson(text: string): string {
+    try {
+      return '```json\n' + JSON.stringify(JSON.parse(text), null, 2) + '\n```';
+    } catch {
+      return text.trim(); // Mislabelled or JSON Lines; keep as text
+    }
+  }
+
+  /**
+   * Render a CSV/TSV file as a markdown table, keeping the header and the first rows
+   */
+  private static csvToMarkdown(text: string, maxRows: number): { content: string; truncated: boolean } {
+    const rows = DocumentExtractor.parseCsv(text);
+    if (rows.length === 0) return { content: '', truncated: false };
+
+    const width = Math.max(...rows.map(row => row.length));
+    const cell = (value: string | undefined) => (value ?? '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+    const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+    const [header, ...data] = rows;
+    const kept = data.slice(0, maxRows);
+    const lines = [line(header), `|${' --- |'.repeat(width)}`, ...kept.map(line)];
+
+    if (data.length > kept.length) {
+      lines.push('', `_First ${kept.length} of ${data.length} rows._`);
+    }
+
+    return { content: lines.join('\n'), truncated: data.length > kept.length };
+  }
+
+  // RFC 4180 quoting; the delimiter is whichever of comma, semicolon or tab the first line uses most
+  private static parseCsv(text: string): string[][] {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+    const delimiter = [',', ';', '\t']
+      .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+      .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field.length === 0) {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        if (row.some(value => value.trim().length > 0)) rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    if (row.some(value => value.trim().length > 0)) rows.push(row);
+
+    return rows;
+  }
+}
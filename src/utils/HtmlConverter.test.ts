@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { HtmlConverter } from './HtmlConverter.js';
+
+describe('HtmlConverter.decode', () => {
+  it('decodes named, decimal and hex entities', () => {
+    expect(HtmlConverter.decode('Tom &amp; Jerry &mdash; &quot;cat&quot; &AMP;')).toBe('Tom & Jerry — "cat" &');
+    expect(HtmlConverter.decode('caf&#233; &#xE9; &#x1F600;')).toBe('café é 😀');
+  });
+
+  it('keeps entities it cannot decode as written', () => {
+    expect(HtmlConverter.decode('&bogus; &#99999999; &#x110000;')).toBe('&bogus; &#99999999; &#x110000;');
+    expect(HtmlConverter.decode('&#x10FFFF;')).toBe('\u{10FFFF}');
+  });
+});
+
+describe('HtmlConverter.toMarkdown', () => {
+  it('converts headings, lists, links, emphasis and code', () => {
+    const markdown = HtmlConverter.toMarkdown([
+      '<h2>Setup</h2>',
+      '<p>Run <code>npm install</code>, then read <a href="/docs">the <b>docs</b></a>.</p>',
+      '<ul><li>One</li><li><em>Two</em></li></ul>',
+      '<pre><code>const a = 1 &lt; 2;</code></pre>'
+    ].join(''));
+
+    expect(markdown).toBe([
+      '## Setup',
+      '',
+      'Run `npm install`, then read [the docs](/docs).',
+      '',
+      '- One',
+      '- *Two*',
+      '',
+      '```',
+      'const a = 1 < 2;',
+      '```'
+    ].join('\n'));
+  });
+
+  it('drops scripts, styles, comments and javascript: links', () => {
+    const markdown = HtmlConverter.toMarkdown(
+      '<style>p { color: red }</style><script>alert(1)</script><!-- note --><p><a href="javascript:void(0)">Menu</a> text</p>'
+    );
+
+    expect(markdown).toBe('Menu text');
+  });
+
+  it('decodes an out-of-range entity in page text without throwing', () => {
+    expect(HtmlConverter.toMarkdown('<p>a &#99999999; b</p>')).toBe('a &#99999999; b');
+  });
+});
+
+describe('HtmlConverter.title', () => {
+  it('prefers <title> and falls back to the first <h1>', () => {
+    expect(HtmlConverter.title('<title>Page &amp; More</title><h1>Heading</h1>')).toBe('Page & More');
+    expect(HtmlConverter.title('<h1> <span>Heading</span> </h1>')).toBe('Heading');
+    expect(HtmlConverter.title('<p>No title</p>')).toBeUndefined();
+  });
+});
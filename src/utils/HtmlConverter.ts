@@ -0,0 +1,89 @@
+/**
+ * Dependency-free HTML to markdown conversion
+ * Good enough for documentation-style pages; not a full HTML parser
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  copy: '©'
+};
+
+export class HtmlConverter {
+  /**
+   * Convert an HTML document or fragment to markdown
+   */
+  static toMarkdown(html: string): string {
+    let text = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '');
+
+    // Block structure
+    text = text
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+        `\n\n${'#'.repeat(Number(level))} ${HtmlConverter.inline(inner)}\n\n`)
+      .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner) =>
+        `\n\n\`\`\`\n${HtmlConverter.decode(inner.replace(/<[^>]+>/g, '')).trim()}\n\`\`\`\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<hr\b[^>]*>/gi, '\n\n---\n\n')
+      .replace(/<\/(p|div|section|article|header|footer|ul|ol|table|tr|blockquote|figure|main|aside|nav)>/gi, '\n\n')
+      .replace(/<\/(td|th)>/gi, ' | ');
+
+    text = HtmlConverter.inline(text, false);
+
+    return text
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * The document's <title>, falling back to its first <h1>
+   */
+  static title(html: string): string | undefined {
+    const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i) ?? html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    const title = match ? HtmlConverter.inline(match[1]) : '';
+    return title.length > 0 ? title : undefined;
+  }
+
+  static decode(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Past U+10FFFF fromCodePoint throws; keep the entity text as written
+        return value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  // Links, emphasis and code spans; strips every remaining tag
+  private static inline(html: string, collapse: boolean = true): string {
+    const text = html
+      .replace(/<a\b[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href, inner) => {
+        const label = inner.replace(/<[^>]+>/g, '').trim();
+        return label && href && !href.startsWith('javascript:') ? `[${label}](${href})` : label;
+      })
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+      .replace(/<[^>]+>/g, '');
+
+    const decoded = HtmlConverter.decode(text);
+    return collapse ? decoded.replace(/\s+/g, ' ').trim() : decoded;
+  }
+}
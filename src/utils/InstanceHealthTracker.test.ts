@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { InstanceHealthTracker } from './InstanceHealthTracker.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const A = 'https://a.example';
+const B = 'https://b.example';
+
+// Trips on the first failure and stays open for 20ms
+function benched(...instances: string[]): InstanceHealthTracker {
+  const health = new InstanceHealthTracker(instances, { failureThreshold: 1, cooldownMs: 20 });
+  instances.forEach(url => health.recordFailure(url, 'boom', 500));
+  return health;
+}
+
+describe('InstanceHealthTracker half-open trials', () => {
+  it('lets one trial request through at a time', async () => {
+    const health = benched(A);
+    await sleep(30);
+
+    expect(health.select([A], new Set(), true)).toBe(A);
+    expect(health.isAvailable(A)).toBe(false);
+    expect(health.select([A], new Set(), true)).toBeUndefined();
+
+    health.recordSuccess(A, 10);
+    expect(health.select([A], new Set(), true)).toBe(A);
+    expect(health.select([A], new Set(), true)).toBe(A); // Closed circuits are not limited
+  });
+
+  it('re-opens after a failed trial and allows the next one once cooled down', async () => {
+    const health = benched(A);
+    await sleep(30);
+
+    expect(health.select([A], new Set(), true)).toBe(A);
+    health.recordFailure(A, 'still down', 500);
+    expect(health.getHealth()[0].circuit).toBe('open');
+
+    await sleep(50);
+    expect(health.select([A], new Set(), true)).toBe(A);
+    expect(health.select([A], new Set(), true)).toBeUndefined();
+  });
+
+  it('routes around an instance whose trial is running', async () => {
+    const health = benched(A, B);
+    await sleep(30);
+    health.recordSuccess(B, 10);
+
+    expect(health.select([A, B], new Set(), true)).toBe(A);
+    expect(health.select([A, B], new Set(), true)).toBe(B);
+  });
+
+  it('sends only one request to a fully benched pool', () => {
+    const health = benched(A);
+
+    expect(health.select([A], new Set(), true)).toBe(A);
+    expect(health.select([A], new Set(), true)).toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Health tracking and circuit breaking for search instances
+ * Benches failing instances with exponential backoff and steers selection toward healthy ones
+ */
+
+import type { CircuitBreakerConfig, InstanceHealth } from '../types/index.js';
+
+// Weight of the newest observation in the moving averages
+const EWMA_ALPHA = 0.3;
+
+interface InstanceState {
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  errorRate: number;
+  avgLatencyMs?: number;
+  last429At?: number;
+  lastError?: string;
+  openUntil?: number;
+  trips: number; // Consecutive times the circuit opened without a successful request in between
+  trialInFlight: boolean; // A request to the benched instance is running; others wait for its outcome
+}
+
+export class InstanceHealthTracker {
+  private states: Map<string, InstanceState> = new Map();
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private maxCooldownMs: number;
+
+  constructor(instances: string[], config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? 3;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.maxCooldownMs = config.maxCooldownMs ?? 600000;
+
+    instances.forEach(url => this.state(url));
+  }
+
+  /**
+   * Pick the next instance to try
+   *
+   * Instances with an open circuit are skipped; if every candidate is benched,
+   * the one that recovers soonest is used rather than failing outright.
+   * A benched instance gets one trial request at a time, ended by recordSuccess or recordFailure.
+   *
+   * @param exclude - Instances already tried for this request
+   * @param priorityOrder - Take the first available instance instead of a weighted random pick
+   * @param load - Requests queued or in flight per instance; busy instances are picked less often
+   */
+  select(
+    instances: string[],
+    exclude: Set<string>,
+    priorityOrder: boolean,
+    load: (url: string) => number = () => 0
+  ): string | undefined {
+    const candidates = instances.filter(url => !exclude.has(url));
+    if (candidates.length === 0) return undefined;
+
+    const available = candidates.filter(url => this.isAvailable(url));
+    if (available.length === 0) {
+      const idle = candidates.filter(url => !this.state(url).trialInFlight);
+      if (idle.length === 0) return undefined;
+
+      return this.startTrial(idle.reduce((soonest, url) =>
+        (this.state(url).openUntil ?? 0) < (this.state(soonest).openUntil ?? 0) ? url : soonest
+      ));
+    }
+
+    if (priorityOrder) {
+      return this.startTrial(available[0]);
+    }
+
+    const weights = available.map(url => this.weight(url) / (1 + load(url)));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let pick = Math.random() * total;
+
+    for (let i = 0; i < available.length; i++) {
+      pick -= weights[i];
+      if (pick <= 0) return this.startTrial(available[i]);
+    }
+
+    return this.startTrial(available[available.length - 1]);
+  }
+
+  isAvailable(url: string): boolean {
+    const { openUntil, trialInFlight } = this.state(url);
+    return openUntil === undefined || (Date.now() >= openUntil && !trialInFlight);
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const state = this.state(url);
+
+    state.requests++;
+    state.consecutiveFailures = 0;
+    state.errorRate = this.ewma(state.errorRate, 0);
+    state.avgLatencyMs = state.avgLatencyMs === undefined ? latencyMs : this.ewma(state.avgLatencyMs, latencyMs);
+    state.openUntil = undefined;
+    state.trips = 0;
+    state.trialInFlight = false;
+  }
+
+  /**
+   * @param status - HTTP status, if the instance responded
+   */
+  recordFailure(url: string, message: string, status?: number, latencyMs?: number): void {
+    const state = this.state(url);
+
+    state.requests++;
+    state.failures++;
+    state.consecutiveFailures++;
+    state.errorRate = this.ewma(state.errorRate, 1);
+    state.lastError = message;
+    if (latencyMs !== undefined) {
+      state.avgLatencyMs = state.avgLatencyMs === undefined ? latencyMs : this.ewma(state.avgLatencyMs, latencyMs);
+    }
+
+    if (status === 429) {
+      state.last429At = Date.now();
+    }
+
+    // A failed trial request re-opens immediately
+    const wasTrial = state.openUntil !== undefined;
+    state.trialInFlight = false;
+    if (status === 429 || wasTrial || state.consecutiveFailures >= this.failureThreshold) {
+      this.open(url);
+    }
+  }
+
+  /**
+   * Bench an instance for at least `ms` (e.g. from a Retry-After header)
+   */
+  openFor(url: string, ms: number): void {
+    const state = this.state(url);
+    state.openUntil = Math.max(state.openUntil ?? 0, Date.now() + ms);
+  }
+
+  getHealth(): InstanceHealth[] {
+    const now = Date.now();
+
+    return Array.from(this.states.entries()).map(([url, state]) => ({
+      url,
+      circuit: state.openUntil === undefined ? 'closed' : now < state.openUntil ? 'open' : 'half-open',
+      requests: state.requests,
+      failures: state.failures,
+      errorRate: state.errorRate,
+      avgLatencyMs: state.avgLatencyMs,
+      last429At: state.last429At,
+      lastError: state.lastError,
+      openUntil: state.openUntil
+    }));
+  }
+
+  // Requests to a closed circuit are not trials
+  private startTrial(url: string): string {
+    const state = this.state(url);
+    if (state.openUntil !== undefined) state.trialInFlight = true;
+    return url;
+  }
+
+  private open(url: string): void {
+    const state = this.state(url);
+    const cooldown = Math.min(this.cooldownMs * Math.pow(2, state.trips), this.maxCooldownMs);
+
+    state.trips++;
+    this.openFor(url, cooldown);
+  }
+
+  // Favor low error rates strongly and low latency mildly; untried instances get a fair chance
+  private weight(url: string): number {
+    const { errorRate, avgLatencyMs } = this.state(url);
+    const reliability = Math.pow(1 - errorRate, 2);
+    const speed = 1 / (1 + (avgLatencyMs ?? 1000) / 1000);
+
+    return Math.max(reliability * speed, 0.01);
+  }
+
+  private ewma(previous: number, value: number): number {
+    return previous + EWMA_ALPHA * (value - previous);
+  }
+
+  private state(url: string): InstanceState {
+    let state = this.states.get(url);
+
+    if (!state) {
+      state = { requests: 0, failures: 0, consecutiveFailures: 0, errorRate: 0, trips: 0, trialInFlight: false };
+      this.states.set(url, state);
+    }
+
+    return state;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Reading local documents for the corpus index and the scraper
+ */
+
+import { readFileSync, realpathSync } from 'fs';
+import { basename, extname, resolve, sep } from 'path';
+import { HtmlConverter } from './HtmlConverter.js';
+
+export const DEFAULT_CORPUS_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm'];
+
+export interface LocalDocument {
+  title: string;
+  content: string; // Markdown or plain text
+}
+
+/**
+ * Read a document, converting HTML to markdown and taking the title from its first heading
+ */
+export function readLocalDocument(path: string): LocalDocument {
+  const raw = readFileSync(path, 'utf-8');
+  const extension = extname(path).toLowerCase();
+  const fallbackTitle = basename(path, extension);
+
+  if (extension === '.html' || extension === '.htm') {
+    return { title: HtmlConverter.title(raw) ?? fallbackTitle, content: HtmlConverter.toMarkdown(raw) };
+  }
+
+  if (extension === '.md' || extension === '.markdown') {
+    const heading = raw.match(/^#\s+(.+)$/m);
+    return { title: heading ? heading[1].trim() : fallbackTitle, content: raw };
+  }
+
+  return { title: fallbackTitle, content: raw };
+}
+
+/**
+ * Whether a file lies inside one of the root directories, after resolving symlinks
+ */
+export function isWithinDirectories(path: string, directories: string[]): boolean {
+  let realPath: string;
+  try {
+    realPath = realpathSync(path);
+  } catch {
+    return false;
+  }
+
+  return directories.some(directory => {
+    try {
+      const root = realpathSync(resolve(directory));
+      return realPath === root || realPath.startsWith(root.endsWith(sep) ? root : root + sep);
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Local OpenRouter model catalog
+ * Loads the JSON written by saveModelsToFile and optionally refreshes it when stale
+ */
+
+import { existsSync } from 'fs';
+import { fetchAvailableModels, loadModelsFromFile, saveModelsToFile } from './ModelFetcher.js';
+import { ConsoleFormatter } from './ConsoleFormatter.js';
+
+export interface CatalogModel {
+  id: string;
+  name: string;
+  pricing: {
+    prompt: number; // USD per 1M tokens
+    completion: number;
+  };
+  contextLength: number;
+  modality?: string;
+}
+
+export interface ModelCatalogOptions {
+  path: string;
+  apiKey?: string; // Required to refresh from OpenRouter
+  ttlHours?: number; // Refresh when the file is older than this (default: never)
+}
+
+export class ModelCatalog {
+  private options: ModelCatalogOptions;
+  private models: Map<string, CatalogModel> = new Map();
+  private fetchedAt: number = 0;
+
+  constructor(options: ModelCatalogOptions) {
+    this.options = options;
+
+    if (existsSync(options.path)) {
+      try {
+        this.load();
+      } catch (error: any) {
+        console.warn(ConsoleFormatter.warning(`${error.message}; using built-in pricing and context lengths`));
+      }
+    }
+  }
+
+  /**
+   * Whether the catalog is missing or older than its TTL
+   */
+  isStale(): boolean {
+    if (this.models.size === 0) return true;
+    if (this.options.ttlHours === undefined) return false;
+
+    return Date.now() - this.fetchedAt > this.options.ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Re-fetch the catalog from OpenRouter if it is stale and an API key is configured
+   *
+   * @returns Whether the catalog was replaced
+   */
+  async refreshIfStale(): Promise<boolean> {
+    if (!this.isStale() || !this.options.apiKey) return false;
+
+    try {
+      const models = await fetchAvailableModels(this.options.apiKey);
+      saveModelsToFile(models, this.options.path);
+      this.load();
+      return true;
+    } catch (error: any) {
+      console.warn(ConsoleFormatter.warning(`Model catalog refresh failed, keeping cached copy: ${error.message}`));
+      return false;
+    }
+  }
+
+  get(modelId: string): CatalogModel | undefined {
+    return this.models.get(modelId);
+  }
+
+  has(modelId: string): boolean {
+    return this.models.has(modelId);
+  }
+
+  list(): CatalogModel[] {
+    return Array.from(this.models.values());
+  }
+
+  get size(): number {
+    return this.models.size;
+  }
+
+  private load(): void {
+    const catalog = loadModelsFromFile(this.options.path);
+
+    this.fetchedAt = Date.parse(catalog.fetchedAt) || 0;
+    this.models = new Map(
+      catalog.models.map(model => [
+        model.id,
+        {
+          id: model.id,
+          name: model.name,
+          // OpenRouter reports USD per token
+          pricing: {
+            prompt: parseFloat(model.pricing.prompt) * 1_000_000,
+            completion: parseFloat(model.pricing.completion) * 1_000_000
+          },
+          contextLength: model.contextLength,
+          modality: model.modality
+        }
+      ])
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { writeFileSync } from 'fs';
+import { readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 
 /**
@@ -25,6 +25,24 @@ interface OpenRouterModelsResponse {
   data: OpenRouterModel[];
 }
 
+/**
+ * Model catalog as written by saveModelsToFile
+ */
+export interface SavedModelCatalog {
+  fetchedAt: string;
+  totalModels: number;
+  models: Array<{
+    id: string;
+    name: string;
+    pricing: {
+      prompt: string;
+      completion: string;
+    };
+    contextLength: number;
+    modality?: string;
+  }>;
+}
+
 export async function fetchAvailableModels(apiKey: string): Promise<OpenRouterModel[]> {
   try {
     const response = await axios.get<OpenRouterModelsResponse>(
@@ -91,7 +109,7 @@ export function getRecommendedModels(models: OpenRouterModel[]) {
 }
 
 export function saveModelsToFile(models: OpenRouterModel[], outputPath: string = './openrouter-models.json'): void {
-  const data = {
+  const data: SavedModelCatalog = {
     fetchedAt: new Date().toISOString(),
     totalModels: models.length,
     models: models.map(m => ({
@@ -110,6 +128,20 @@ export function saveModelsToFile(models: OpenRouterModel[], outputPath: string =
   console.log(`✅ Saved ${models.length} models to ${outputPath}`);
 }
 
+export function loadModelsFromFile(inputPath: string = './openrouter-models.json'): SavedModelCatalog {
+  try {
+    const data = JSON.parse(readFileSync(inputPath, 'utf-8')) as SavedModelCatalog;
+
+    if (!Array.isArray(data.models)) {
+      throw new Error('missing "models" array');
+    }
+
+    return data;
+  } catch (error: any) {
+    throw new Error(`Failed to load models from ${inputPath}: ${error.message}`);
+  }
+}
+
 export async function fetchAndSaveModels(apiKey: string, outputPath?: string): Promise<void> {
   console.log('🔍 Fetching available models from OpenRouter...');
 
@@ -0,0 +1,116 @@
+/**
+ * Catalog-driven model selection
+ * Resolves tier models from the model catalog and checks configured IDs against it
+ */
+
+import type {
+  ModelAutoSelectConfig,
+  ModelChoice,
+  ModelConfig,
+  ModelTier,
+  TierSelectionCriteria
+} from '../types/index.js';
+import { DEFAULT_TIER_CRITERIA } from '../types/index.js';
+import type { CatalogModel, ModelCatalog } from './ModelCatalog.js';
+
+const TIERS: ModelTier[] = ['small', 'medium', 'large'];
+
+export class ModelSelector {
+  /**
+   * Pick models for every tier not already set in `tierModels`
+   *
+   * Each tier gets the priciest matching model (price as a proxy for capability)
+   * followed by `fallbacks` runners-up.
+   *
+   * @throws Error if no catalog model matches a tier's criteria
+   */
+  static selectTierModels(catalog: ModelCatalog, modelConfig: ModelConfig): Record<ModelTier, string[]> {
+    const autoSelect = modelConfig.autoSelect ?? {};
+    const chainLength = 1 + Math.max(0, autoSelect.fallbacks ?? 1);
+    const selected = {} as Record<ModelTier, string[]>;
+
+    for (const tier of TIERS) {
+      const configured = modelConfig.tierModels?.[tier];
+      if (configured && configured.length > 0) {
+        selected[tier] = Array.isArray(configured) ? configured : [configured];
+        continue;
+      }
+
+      const criteria = this.criteriaFor(tier, autoSelect);
+      const candidates = catalog.list()
+        .filter(model => this.matches(model, criteria))
+        .sort((a, b) =>
+          this.blendedPrice(b) - this.blendedPrice(a) ||
+          b.contextLength - a.contextLength ||
+          a.id.localeCompare(b.id)
+        );
+
+      if (candidates.length === 0) {
+        throw new Error(`No catalog model matches the ${tier} tier criteria: ${JSON.stringify(criteria)}`);
+      }
+
+      selected[tier] = candidates.slice(0, chainLength).map(model => model.id);
+    }
+
+    return selected;
+  }
+
+  /**
+   * List configured customModels/tierModels IDs that are missing from the catalog
+   */
+  static findUnknownModels(catalog: ModelCatalog, modelConfig: ModelConfig): string[] {
+    const choices: Array<ModelChoice | undefined> = [
+      ...Object.values(modelConfig.customModels ?? {}),
+      ...Object.values(modelConfig.tierModels ?? {})
+    ];
+    const ids = choices.flatMap(choice => (Array.isArray(choice) ? choice : [choice]));
+
+    return [...new Set(ids)].filter((id): id is string => !!id && !catalog.has(id));
+  }
+
+  private static criteriaFor(tier: ModelTier, autoSelect: ModelAutoSelectConfig): TierSelectionCriteria {
+    const { tiers, fallbacks, ...shared } = autoSelect;
+
+    return {
+      ...DEFAULT_TIER_CRITERIA[tier],
+      ...shared,
+      ...tiers?.[tier]
+    };
+  }
+
+  private static matches(model: CatalogModel, criteria: TierSelectionCriteria): boolean {
+    const { prompt, completion } = model.pricing;
+
+    // Negative or missing prices mean variable-priced routers; skip them
+    if (!(prompt >= 0) || !(completion >= 0)) return false;
+    if (!this.isTextModel(model.modality)) return false;
+
+    if (criteria.maxPromptPrice !== undefined && prompt > criteria.maxPromptPrice) return false;
+    if (criteria.maxCompletionPrice !== undefined && completion > criteria.maxCompletionPrice) return false;
+    if (criteria.minContextLength !== undefined && model.contextLength < criteria.minContextLength) return false;
+
+    if (criteria.allow && criteria.allow.length > 0 && !criteria.allow.some(p => this.matchesPattern(model.id, p))) {
+      return false;
+    }
+    if (criteria.deny?.some(p => this.matchesPattern(model.id, p))) return false;
+
+    return true;
+  }
+
+  private static isTextModel(modality: string | undefined): boolean {
+    if (!modality) return true;
+
+    // e.g. 'text', 'text+image', 'text+image->text'
+    const output = modality.split('->').pop() ?? '';
+    return output.split('+').includes('text');
+  }
+
+  private static matchesPattern(id: string, pattern: string): boolean {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`, 'i').test(id);
+  }
+
+  private static blendedPrice(model: CatalogModel): number {
+    return model.pricing.prompt + model.pricing.completion;
+  }
+}
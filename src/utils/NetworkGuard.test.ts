@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { NetworkGuard } from './NetworkGuard.js';
+
+describe('NetworkGuard.isPrivateAddress', () => {
+  it('flags loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(NetworkGuard.isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(NetworkGuard.isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('lets public addresses through', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(NetworkGuard.isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('treats anything that is not an IP as private', () => {
+    expect(NetworkGuard.isPrivateAddress('example.com')).toBe(true);
+  });
+});
+
+describe('NetworkGuard.assertPublicUrl', () => {
+  it('rejects schemes other than http and https', async () => {
+    await expect(NetworkGuard.assertPublicUrl('file:///etc/passwd')).rejects.toThrow('only http and https');
+    await expect(NetworkGuard.assertPublicUrl('ftp://example.com/')).rejects.toThrow('only http and https');
+  });
+
+  it('rejects private IP literals, however they are written', async () => {
+    await expect(NetworkGuard.assertPublicUrl('http://169.254.169.254/latest/meta-data/')).rejects.toThrow('non-public address');
+    await expect(NetworkGuard.assertPublicUrl('http://[::1]:8080/')).rejects.toThrow('non-public address');
+    await expect(NetworkGuard.assertPublicUrl('http://2130706433/')).rejects.toThrow('(127.0.0.1)');
+  });
+
+  it('rejects hostnames that resolve to private addresses', async () => {
+    await expect(NetworkGuard.assertPublicUrl('http://localhost/')).rejects.toThrow('non-public address');
+  });
+
+  it('accepts public IP literals', async () => {
+    await expect(NetworkGuard.assertPublicUrl('https://8.8.8.8/')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Keeps direct fetches on the public internet
+ * A search result or a redirect must not be able to point the scraper at the local
+ * network or a cloud metadata service (169.254.169.254)
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Non-public ranges; IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 list
+const PRIVATE_RANGES = new BlockList();
+([
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local, including cloud metadata services
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4]       // Reserved and broadcast
+] as const).forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128],           // Unspecified
+  ['::1', 128],          // Loopback
+  ['fc00::', 7],         // Unique local, including fd00:ec2::254 (AWS metadata)
+  ['fe80::', 10],        // Link-local
+  ['ff00::', 8]          // Multicast
+] as const).forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+export class NetworkGuard {
+  /**
+   * Throw unless `url` is http(s) and every address its host resolves to is public
+   */
+  static async assertPublicUrl(url: string): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`Refusing to fetch ${url}: only http and https URLs are fetched`);
+    }
+
+    const host = hostname.replace(/^\[|\]$/g, ''); // IPv6 literals keep their brackets in URLs
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+
+    const blocked = addresses.find(address => NetworkGuard.isPrivateAddress(address));
+    if (blocked) {
+      throw new Error(`Refusing to fetch ${url}: ${host} resolves to a non-public address (${blocked})`);
+    }
+  }
+
+  /**
+   * Loopback, private, link-local and other non-public addresses; anything that isn't an IP counts too
+   */
+  static isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+}
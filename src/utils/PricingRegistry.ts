@@ -0,0 +1,61 @@
+/**
+ * Model pricing shared by LLMProvider and CostEstimator
+ * Catalog prices take precedence over the built-in table
+ */
+
+import type { ModelInfo } from '../types/index.js';
+import type { ModelCatalog } from './ModelCatalog.js';
+
+// Model pricing per 1M tokens (prompt, completion)
+// Updated: 2025-12-09
+const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'meta-llama/llama-3.1-8b-instruct': { prompt: 0.02, completion: 0.03 },
+  'google/gemini-2.5-flash-preview-09-2025': { prompt: 0.30, completion: 2.50 },
+  'deepseek/deepseek-chat': { prompt: 0.30, completion: 1.20 },
+  'deepseek/deepseek-chat-v3.1': { prompt: 0.15, completion: 0.75 },
+  'deepseek/deepseek-reasoner': { prompt: 0.55, completion: 2.19 },
+  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
+  'qwen/qwen-2.5-72b-instruct': { prompt: 0.35, completion: 0.40 },
+  // Fallback for old model IDs
+  'google/gemini-flash-1.5': { prompt: 0.30, completion: 2.50 }
+};
+
+export class PricingRegistry {
+  private catalog?: ModelCatalog;
+
+  constructor(catalog?: ModelCatalog) {
+    this.catalog = catalog;
+  }
+
+  /**
+   * Get pricing (USD per 1M tokens) and context length for a model
+   *
+   * Unknown models report zero pricing with `pricingKnown: false`.
+   */
+  getModelInfo(modelId: string): ModelInfo {
+    const catalogModel = this.catalog?.get(modelId);
+    const pricing = catalogModel?.pricing ?? MODEL_PRICING[modelId];
+    // OpenRouter lists variable-priced routers (e.g. openrouter/auto) with negative prices
+    const known = pricing !== undefined &&
+      Number.isFinite(pricing.prompt) && pricing.prompt >= 0 &&
+      Number.isFinite(pricing.completion) && pricing.completion >= 0;
+
+    return {
+      id: modelId,
+      pricing: known ? pricing : { prompt: 0, completion: 0 },
+      pricingKnown: known,
+      contextLength: catalogModel?.contextLength
+    };
+  }
+
+  hasPricing(modelId: string): boolean {
+    return this.getModelInfo(modelId).pricingKnown !== false;
+  }
+
+  calculateCost(modelId: string, promptTokens: number, completionTokens: number): number {
+    const { pricing } = this.getModelInfo(modelId);
+    const promptCost = (promptTokens / 1_000_000) * pricing.prompt;
+    const completionCost = (completionTokens / 1_000_000) * pricing.completion;
+    return promptCost + completionCost;
+  }
+}
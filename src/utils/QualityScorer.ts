@@ -3,6 +3,9 @@
  * Scores content 0-100 based on various heuristics
  */
 
+import type { DocumentFormat } from '../types/index.js';
+import { DocumentExtractor } from './DocumentExtractor.js';
+
 export interface QualityFactors {
   contentLength: number;
   hasTitle: number;
@@ -26,12 +29,20 @@ export class QualityScorer {
     'github.com', 'stackoverflow.com', 'medium.com', 'dev.to', 'mozilla.org', 'w3.org'
   ]);
 
-  static scoreContent(title: string, url: string, content: string): number {
+  /**
+   * @param format - How the content was extracted, when known; tables and data have no prose to judge
+   */
+  static scoreContent(title: string, url: string, content: string, format?: DocumentFormat): number {
+    // Binary read as text (e.g. a PDF passed through unextracted) is unusable whatever its source
+    if (DocumentExtractor.garbledRatio(content) > 0.02) {
+      return 5;
+    }
+
     const factors: QualityFactors = {
       contentLength: this.scoreContentLength(content),
       hasTitle: title.length > 0 ? 25 : 0,
       domainReputation: this.scoreDomainReputation(url),
-      readability: this.scoreReadability(content)
+      readability: format === 'csv' || format === 'json' ? 60 : this.scoreReadability(content)
     };
 
     // Weighted sum
@@ -62,6 +73,11 @@ export class QualityScorer {
       const urlObj = new URL(url);
       const hostname = urlObj.hostname.toLowerCase();
 
+      // Local corpus documents were put there on purpose
+      if (urlObj.protocol === 'file:') {
+        return 90;
+      }
+
       // Check TLD
       if (hostname.endsWith('.edu') || hostname.endsWith('.ac.uk') || hostname.endsWith('.gov')) {
         return 100; // Academic/Government
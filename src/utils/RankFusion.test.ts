@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { RankFusion } from './RankFusion.js';
+import type { SearchResult } from '../types/index.js';
+
+const result = (url: string, engines?: string[]): SearchResult => ({ title: url, url, snippet: '', engines });
+const urls = (results: SearchResult[]) => results.map(r => r.url);
+
+describe('RankFusion.fuse', () => {
+  it('ranks sources that several queries return above single hits', () => {
+    const fused = RankFusion.fuse([
+      { query: 'q1', results: [result('a'), result('b'), result('c')] },
+      { query: 'q2', results: [result('d'), result('c')] }
+    ]);
+
+    expect(urls(fused)).toEqual(['c', 'a', 'd', 'b']);
+    expect(fused[0].queries).toEqual(['q1', 'q2']);
+    expect(fused[0].fusedScore).toBeCloseTo(1 / 63 + 1 / 62);
+  });
+
+  it('keeps first-seen order on ties', () => {
+    const fused = RankFusion.fuse([
+      { query: 'q1', results: [result('a')] },
+      { query: 'q2', results: [result('b')] }
+    ]);
+
+    expect(urls(fused)).toEqual(['a', 'b']);
+  });
+
+  it('counts duplicates within one list once', () => {
+    const fused = RankFusion.fuse([{ query: 'q', results: [result('a'), result('a'), result('b')] }], 0);
+
+    expect(fused.find(r => r.url === 'a')?.fusedScore).toBe(1);
+    expect(fused.find(r => r.url === 'b')?.fusedScore).toBe(1 / 2);
+  });
+
+  it('treats each engine as its own ranking, averaged per query', () => {
+    const fused = RankFusion.fuse([
+      { query: 'q', results: [result('a', ['google']), result('b', ['google', 'bing'])] }
+    ], 0);
+
+    // a: google rank 1; b: google rank 2 and bing rank 1; two rankings
+    expect(fused.find(r => r.url === 'a')?.fusedScore).toBe(1 / 2);
+    expect(fused.find(r => r.url === 'b')?.fusedScore).toBe((1 / 2 + 1) / 2);
+    expect(urls(fused)).toEqual(['b', 'a']);
+  });
+
+  it('merges the engines of a source found by several queries', () => {
+    const fused = RankFusion.fuse([
+      { query: 'q1', results: [result('a', ['google'])] },
+      { query: 'q2', results: [result('a', ['bing'])] }
+    ]);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].engines).toEqual(['google', 'bing']);
+  });
+
+  it('returns nothing for empty lists', () => {
+    expect(RankFusion.fuse([{ query: 'q', results: [] }])).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Reciprocal rank fusion of search results
+ * Scores each URL by its positions across every query's result list, so sources
+ * that several queries (and engines) rank highly come first
+ */
+
+import type { SearchResult } from '../types/index.js';
+
+// Standard RRF constant; dampens the gap between the top few positions
+export const RRF_K = 60;
+
+export interface QueryResults {
+  query: string;
+  results: SearchResult[];
+}
+
+export class RankFusion {
+  /**
+   * Merge per-query result lists into one list ordered by fused score
+   *
+   * Each result's score is the sum of 1 / (k + rank) over the lists it appears in.
+   * When results carry the engines that returned them, each engine's ranking counts
+   * as its own list, averaged so every query weighs the same.
+   */
+  static fuse(lists: QueryResults[], k: number = RRF_K): SearchResult[] {
+    const merged = new Map<string, SearchResult>();
+
+    for (const { query, results } of lists) {
+      const rankings = RankFusion.rankingsOf(results);
+
+      for (const ranking of rankings) {
+        ranking.forEach((result, i) => {
+          const existing = merged.get(result.url);
+          const score = 1 / (k + i + 1) / rankings.length;
+
+          if (!existing) {
+            merged.set(result.url, { ...result, fusedScore: score, queries: [query] });
+            return;
+          }
+
+          existing.fusedScore = (existing.fusedScore ?? 0) + score;
+          if (!existing.queries!.includes(query)) existing.queries!.push(query);
+          if (result.engines) {
+            existing.engines = Array.from(new Set([...(existing.engines ?? []), ...result.engines]));
+          }
+        });
+      }
+    }
+
+    // Stable sort: ties keep first-seen order
+    return Array.from(merged.values()).sort((a, b) => (b.fusedScore ?? 0) - (a.fusedScore ?? 0));
+  }
+
+  // One ranking per engine when engines are known, else the list as returned (duplicates dropped)
+  private static rankingsOf(results: SearchResult[]): SearchResult[][] {
+    const unique = results.filter((result, i) => results.findIndex(other => other.url === result.url) === i);
+    if (unique.length === 0) return [];
+
+    // Engine rankings only work if every result says where it came from
+    if (!unique.every(result => result.engines?.length)) {
+      return [unique];
+    }
+
+    const engines = Array.from(new Set(unique.flatMap(result => result.engines!)));
+    return engines.map(engine => unique.filter(result => result.engines?.includes(engine)));
+  }
+}
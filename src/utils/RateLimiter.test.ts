@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from './RateLimiter.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `ms` of work and records how many tasks were running at once
+function tracker() {
+  let running = 0;
+  const state = { peak: 0, starts: [] as number[] };
+
+  const task = (ms: number) => async () => {
+    state.starts.push(Date.now());
+    running++;
+    state.peak = Math.max(state.peak, running);
+    await sleep(ms);
+    running--;
+  };
+
+  return { state, task };
+}
+
+describe('RateLimiter', () => {
+  it('resolves with the task result and rejects with its error', async () => {
+    const limiter = new RateLimiter(2, 0);
+
+    await expect(limiter.add(async () => 42)).resolves.toBe(42);
+    await expect(limiter.add(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(limiter.getStats()).toEqual({ queueLength: 0, processing: 0, maxConcurrent: 2 });
+  });
+
+  it('runs at most maxConcurrent tasks at once', async () => {
+    const limiter = new RateLimiter(2, 0);
+    const { state, task } = tracker();
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.add(task(20))));
+
+    expect(state.peak).toBe(2);
+  });
+
+  it('spaces task starts by minInterval', async () => {
+    const limiter = new RateLimiter(10, 30);
+    const { state, task } = tracker();
+
+    await Promise.all(Array.from({ length: 3 }, () => limiter.add(task(0))));
+
+    // Timers may fire a millisecond early
+    expect(state.starts[1] - state.starts[0]).toBeGreaterThanOrEqual(28);
+    expect(state.starts[2] - state.starts[1]).toBeGreaterThanOrEqual(28);
+  });
+
+  it('holds queued tasks back during a pause', async () => {
+    const limiter = new RateLimiter(10, 0);
+    const start = Date.now();
+
+    limiter.pauseFor(80);
+    limiter.pauseFor(10); // A shorter pause does not cut the longer one short
+    await limiter.add(async () => undefined);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(78);
+  });
+});
+
+describe('RateLimiter per-key scheduling', () => {
+  it('runs at most maxPerKey tasks per key while other keys proceed', async () => {
+    const limiter = new RateLimiter(10, 0, 1);
+    const a = tracker();
+    const b = tracker();
+
+    await Promise.all([
+      ...Array.from({ length: 3 }, () => limiter.add(a.task(50), 'a.example')),
+      ...Array.from({ length: 3 }, () => limiter.add(b.task(50), 'b.example'))
+    ]);
+
+    expect(a.state.peak).toBe(1);
+    expect(b.state.peak).toBe(1);
+    // b started while a's first task was still running, not after a's queue drained
+    expect(b.state.starts[0] - a.state.starts[0]).toBeLessThan(50);
+  });
+
+  it('lets a free key overtake a busy one in the queue', async () => {
+    const limiter = new RateLimiter(10, 0, 1);
+    const order: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      order.push(name);
+      await sleep(ms);
+    };
+
+    await Promise.all([
+      limiter.add(task('a1', 30), 'a'),
+      limiter.add(task('a2', 0), 'a'),
+      limiter.add(task('b1', 0), 'b')
+    ]);
+
+    expect(order).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('spaces starts for a key by its interval', async () => {
+    const limiter = new RateLimiter(10, 0);
+    const slow = tracker();
+    const fast = tracker();
+    limiter.setKeyInterval('slow', 60);
+
+    await Promise.all([
+      ...Array.from({ length: 3 }, () => limiter.add(slow.task(0), 'slow')),
+      ...Array.from({ length: 3 }, () => limiter.add(fast.task(0), 'fast'))
+    ]);
+
+    expect(slow.state.starts[1] - slow.state.starts[0]).toBeGreaterThanOrEqual(58);
+    expect(slow.state.starts[2] - slow.state.starts[1]).toBeGreaterThanOrEqual(58);
+    expect(fast.state.starts[2] - fast.state.starts[0]).toBeLessThan(60); // Not held back by the slow key
+  });
+
+  it('drops the interval when set to zero', async () => {
+    const limiter = new RateLimiter(10, 0);
+    const { state, task } = tracker();
+    limiter.setKeyInterval('k', 200);
+    limiter.setKeyInterval('k', 0);
+
+    await Promise.all(Array.from({ length: 3 }, () => limiter.add(task(0), 'k')));
+
+    expect(state.starts[2] - state.starts[0]).toBeLessThan(100);
+  });
+});
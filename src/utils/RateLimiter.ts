@@ -1,22 +1,37 @@
-
 export class RateLimiter {
   private queue: Array<{
     fn: () => Promise<any>;
     resolve: (value: any) => void;
     reject: (error: any) => void;
+    key?: string;
   }> = [];
 
   private processing = 0;
   private lastExecutionTime = 0;
+  private pausedUntil = 0;
+
+  // Per-key state (e.g. per host), for requests added with a key
+  private keyProcessing = new Map<string, number>();
+  private keyLastExecution = new Map<string, number>();
+  private keyIntervals = new Map<string, number>();
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private wakeAt = 0;
 
+  /**
+   * @param maxPerKey - Requests sharing a key that may run at once (default: no per-key limit)
+   */
   constructor(
     private maxConcurrent: number = 20,
-    private minInterval: number = 50 // 50ms = 20 requests/second
+    private minInterval: number = 50, // 50ms = 20 requests/second
+    private maxPerKey: number = Infinity
   ) {}
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * @param key - Requests with the same key also obey maxPerKey and the key's interval
+   */
+  async add<T>(fn: () => Promise<T>, key?: string): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
+      this.queue.push({ fn, resolve, reject, key });
       this.process();
     });
   }
@@ -26,20 +41,33 @@ export class RateLimiter {
       return;
     }
 
-    // Ensure minimum interval between requests
+    // Ensure minimum interval between requests, and honor any pause
     const now = Date.now();
     const timeSinceLastExecution = now - this.lastExecutionTime;
+    const delay = Math.max(this.minInterval - timeSinceLastExecution, this.pausedUntil - now);
 
-    if (timeSinceLastExecution < this.minInterval) {
-      const delay = this.minInterval - timeSinceLastExecution;
+    if (delay > 0) {
       await this.sleep(delay);
+      return this.process(); // Re-check: another request may have started or a pause been set meanwhile
+    }
+
+    // First request whose key is free; later keys may overtake a busy one
+    const index = this.queue.findIndex(item => this.keyDelay(item.key, now) === 0);
+    if (index === -1) {
+      this.wakeWhenKeyReady(now);
+      return;
     }
 
-    const item = this.queue.shift();
-    if (!item) return;
+    const [item] = this.queue.splice(index, 1);
+    const key = item.key;
 
     this.processing++;
     this.lastExecutionTime = Date.now();
+    if (key !== undefined) {
+      this.keyProcessing.set(key, (this.keyProcessing.get(key) ?? 0) + 1);
+      this.keyLastExecution.set(key, this.lastExecutionTime);
+      this.process(); // A request for another key may be able to start too
+    }
 
     try {
       const result = await item.fn();
@@ -48,10 +76,30 @@ export class RateLimiter {
       item.reject(error);
     } finally {
       this.processing--;
+      if (key !== undefined) {
+        const running = (this.keyProcessing.get(key) ?? 1) - 1;
+        if (running > 0) this.keyProcessing.set(key, running);
+        else this.keyProcessing.delete(key);
+      }
       this.process(); // Process next item
     }
   }
 
+  /**
+   * Hold back queued requests for at least `ms` (e.g. from a Retry-After header)
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Minimum time between the starts of requests with this key (e.g. a robots.txt Crawl-delay)
+   */
+  setKeyInterval(key: string, ms: number): void {
+    if (ms > 0) this.keyIntervals.set(key, ms);
+    else this.keyIntervals.delete(key);
+  }
+
   getStats() {
     return {
       queueLength: this.queue.length,
@@ -60,6 +108,30 @@ export class RateLimiter {
     };
   }
 
+  // 0 = may start now; Infinity = waits for a request with the same key to finish
+  private keyDelay(key: string | undefined, now: number): number {
+    if (key === undefined) return 0;
+    if ((this.keyProcessing.get(key) ?? 0) >= this.maxPerKey) return Infinity;
+
+    const last = this.keyLastExecution.get(key);
+    const interval = this.keyIntervals.get(key) ?? 0;
+    return last === undefined ? 0 : Math.max(0, last + interval - now);
+  }
+
+  // Every queued key is busy or within its interval: retry when the first interval ends
+  private wakeWhenKeyReady(now: number): void {
+    const wait = Math.min(...this.queue.map(item => this.keyDelay(item.key, now)));
+    if (!Number.isFinite(wait)) return; // A finishing request calls process()
+    if (this.wakeTimer && this.wakeAt <= now + wait) return;
+
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeAt = now + wait;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.process();
+    }, wait);
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
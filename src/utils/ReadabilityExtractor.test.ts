@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { ReadabilityExtractor } from './ReadabilityExtractor.js';
+
+const sentence = 'Creatine supplementation, taken daily, increases muscle phosphocreatine stores and strength output. ';
+const paragraphs = (count: number) => Array.from({ length: count }, (_, i) => `<p>${i + 1}. ${sentence.repeat(2)}</p>`).join('');
+
+function page(body: string, title = 'Creatine Guide'): string {
+  return `<!DOCTYPE html><html><head><title>${title}</title></head><body>${body}</body></html>`;
+}
+
+describe('ReadabilityExtractor boilerplate removal', () => {
+  it('drops nav, header, footer and aside elements', () => {
+    const { markdown } = ReadabilityExtractor.extract(page([
+      '<header>Site header</header>',
+      '<nav><a href="/">Home</a> <a href="/about">About</a></nav>',
+      `<article><h1>Creatine Guide</h1>${paragraphs(3)}</article>`,
+      '<aside>Popular posts</aside>',
+      '<footer>Copyright 2024</footer>'
+    ].join('')));
+
+    expect(markdown).toContain('increases muscle phosphocreatine');
+    for (const text of ['Site header', 'Home', 'Popular posts', 'Copyright']) {
+      expect(markdown).not.toContain(text);
+    }
+  });
+
+  it('drops blocks whose class or id marks them as sidebars and menus', () => {
+    const { markdown } = ReadabilityExtractor.extract(page([
+      `<div class="post">${paragraphs(3)}</div>`,
+      `<div class="sidebar"><p>${sentence}</p></div>`,
+      '<div id="main-menu"><p>Menu entry with enough text to count as a paragraph</p></div>'
+    ].join('')));
+
+    expect(markdown).toContain('1. Creatine supplementation');
+    expect(markdown).not.toContain('Menu entry');
+    expect(markdown.match(/phosphocreatine/g)).toHaveLength(6); // Only the post's paragraphs
+  });
+
+  it('keeps a block with both unlikely and content hints', () => {
+    const { markdown } = ReadabilityExtractor.extract(page(`<div class="sidebar-content">${paragraphs(2)}</div>`));
+    expect(markdown).toContain('2. Creatine supplementation');
+  });
+});
+
+describe('ReadabilityExtractor main-content selection', () => {
+  it('picks the paragraph-heavy block over a link list', () => {
+    const links = Array.from({ length: 20 }, (_, i) => `<li><a href="/p/${i}">Another interesting related article number ${i}</a></li>`).join('');
+    const { markdown } = ReadabilityExtractor.extract(page(`<div class="list"><ul>${links}</ul></div><div class="story">${paragraphs(4)}</div>`));
+
+    expect(markdown).toContain('4. Creatine supplementation');
+    expect(markdown).not.toContain('related article');
+  });
+
+  it('takes the shared parent when content is split across sibling blocks', () => {
+    const { markdown } = ReadabilityExtractor.extract(page(
+      `<div class="entry"><section>${paragraphs(3)}</section><section><p>Second part: ${sentence}</p>${paragraphs(2)}</section></div>`
+    ));
+
+    expect(markdown).toContain('1. Creatine supplementation');
+    expect(markdown).toContain('Second part');
+  });
+
+  it('adds the title when the content does not start with it', () => {
+    expect(ReadabilityExtractor.extract(page(`<article>${paragraphs(2)}</article>`)).markdown).toMatch(/^# Creatine Guide\n\n1\. /);
+    expect(ReadabilityExtractor.extract(page(`<article><h1>Creatine Guide</h1>${paragraphs(2)}</article>`)).markdown).toMatch(/^# Creatine Guide\n\n1\. /);
+  });
+
+  it('returns empty markdown for a page rendered by JavaScript', () => {
+    const { title, markdown } = ReadabilityExtractor.extract(page('<div id="root"></div><script>render()</script>'));
+
+    expect(title).toBe('Creatine Guide');
+    expect(markdown).toBe('');
+  });
+
+  it('decodes entities in the extracted text and keeps out-of-range ones', () => {
+    const { markdown } = ReadabilityExtractor.extract(page(`<article><p>Fish &amp; chips &#99999999; ${sentence}</p></article>`));
+    expect(markdown).toContain('Fish & chips &#99999999; Creatine');
+  });
+});
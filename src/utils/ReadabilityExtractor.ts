@@ -0,0 +1,226 @@
+/**
+ * Main-content extraction for fetched HTML pages
+ * Builds a tolerant element tree, drops navigation and boilerplate, scores blocks
+ * by their paragraph text (Readability-style) and converts the best one to markdown
+ */
+
+import { HtmlConverter } from './HtmlConverter.js';
+
+interface HtmlElement {
+  tag: string;
+  attrs: string; // Raw attribute text, re-emitted as-is
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+type HtmlNode = HtmlElement | string;
+
+export interface ExtractedContent {
+  title?: string;
+  markdown: string;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Opening one of these closes an unclosed sibling of the same tag (<li>a<li>b)
+const SELF_NESTING_TAGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+// Never main content
+const BOILERPLATE_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'button', 'select', 'input', 'iframe', 'dialog', 'menu']);
+
+// Class/id/role hints, as in Mozilla Readability
+const UNLIKELY_CANDIDATES = /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|footer|header|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|share|sidebar|skip|social|sponsor|subscribe|advert|\bads?\b|widget/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|post|story/i;
+
+const CANDIDATE_TAGS = new Set(['div', 'article', 'main', 'section', 'td', 'blockquote', 'body']);
+const PARAGRAPH_TAGS = new Set(['p', 'pre', 'td', 'blockquote', 'li']);
+
+export class ReadabilityExtractor {
+  /**
+   * Extract the main content of a page as markdown
+   *
+   * @returns Empty markdown when the page has no readable text (e.g. rendered by JavaScript)
+   */
+  static extract(html: string): ExtractedContent {
+    const title = HtmlConverter.title(html);
+    const root = ReadabilityExtractor.parse(html);
+    ReadabilityExtractor.removeBoilerplate(root);
+
+    const body = ReadabilityExtractor.find(root, 'body') ?? root;
+    const main = ReadabilityExtractor.bestCandidate(body) ?? body;
+    let markdown = HtmlConverter.toMarkdown(ReadabilityExtractor.serialize(main));
+
+    if (title && markdown.length > 0 && !markdown.slice(0, 200).includes(title)) {
+      markdown = `# ${title}\n\n${markdown}`;
+    }
+
+    return { title, markdown };
+  }
+
+  private static parse(html: string): HtmlElement {
+    const root: HtmlElement = { tag: '#root', attrs: '', children: [] };
+    let current = root;
+
+    // Raw-text elements would confuse the tokenizer and never hold content
+    const cleaned = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg|canvas|head)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+    const tokens = cleaned.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|<![^>]*>|[^<]+|</g);
+
+    for (const [token, closing, rawTag, attrs] of tokens) {
+      if (rawTag === undefined) {
+        // Text (or a doctype / stray "<")
+        if (!token.startsWith('<!')) current.children.push(token);
+        continue;
+      }
+
+      const tag = rawTag.toLowerCase();
+
+      if (closing) {
+        // Close the nearest matching open element; ignore unmatched end tags
+        for (let node: HtmlElement | undefined = current; node && node !== root; node = node.parent) {
+          if (node.tag === tag) {
+            current = node.parent ?? root;
+            break;
+          }
+        }
+        continue;
+      }
+
+      if (SELF_NESTING_TAGS.has(tag) && current.tag === tag && current.parent) {
+        current = current.parent;
+      }
+
+      const element: HtmlElement = { tag, attrs, children: [], parent: current };
+      current.children.push(element);
+
+      if (!VOID_TAGS.has(tag) && !attrs.trim().endsWith('/')) {
+        current = element;
+      }
+    }
+
+    return root;
+  }
+
+  private static removeBoilerplate(element: HtmlElement): void {
+    element.children = element.children.filter(child => {
+      if (typeof child === 'string') return true;
+      if (BOILERPLATE_TAGS.has(child.tag)) return false;
+
+      const hints = ReadabilityExtractor.attribute(child, 'class') + ' ' + ReadabilityExtractor.attribute(child, 'id') + ' ' +
+        ReadabilityExtractor.attribute(child, 'role');
+      if (child.tag !== 'body' && child.tag !== 'article' && child.tag !== 'main' &&
+          UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATES.test(hints)) {
+        return false;
+      }
+
+      ReadabilityExtractor.removeBoilerplate(child);
+      return true;
+    });
+  }
+
+  /**
+   * The block whose paragraphs carry the most text, discounted by link density
+   */
+  private static bestCandidate(body: HtmlElement): HtmlElement | undefined {
+    const scores = new Map<HtmlElement, number>();
+
+    const addScore = (element: HtmlElement | undefined, score: number) => {
+      if (!element || !CANDIDATE_TAGS.has(element.tag)) return;
+      if (!scores.has(element)) {
+        scores.set(element, element.tag === 'article' || element.tag === 'main' ? 10 : element.tag === 'div' ? 5 : 0);
+      }
+      scores.set(element, scores.get(element)! + score);
+    };
+
+    ReadabilityExtractor.walk(body, element => {
+      if (!PARAGRAPH_TAGS.has(element.tag)) return;
+
+      const text = ReadabilityExtractor.text(element);
+      if (text.length < 25) return;
+
+      const commas = text.split(/[,，]/).length - 1;
+      const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+      addScore(element.parent, score);
+      addScore(element.parent?.parent, score / 2);
+    });
+
+    let best: HtmlElement | undefined;
+    let bestScore = 0;
+
+    for (const [element, score] of scores) {
+      const adjusted = score * (1 - ReadabilityExtractor.linkDensity(element));
+      if (adjusted > bestScore) {
+        best = element;
+        bestScore = adjusted;
+      }
+    }
+
+    // Content split across sibling blocks: take the shared parent instead
+    if (best?.parent && best.parent.tag !== '#root') {
+      const siblingScore = best.parent.children
+        .filter((child): child is HtmlElement => typeof child !== 'string' && child !== best)
+        .reduce((sum, sibling) => sum + (scores.get(sibling) ?? 0), 0);
+      if (siblingScore >= bestScore * 0.5) {
+        return best.parent;
+      }
+    }
+
+    return best;
+  }
+
+  private static linkDensity(element: HtmlElement): number {
+    const textLength = ReadabilityExtractor.text(element).length;
+    if (textLength === 0) return 0;
+
+    let linkLength = 0;
+    ReadabilityExtractor.walk(element, node => {
+      if (node.tag === 'a') linkLength += ReadabilityExtractor.text(node).length;
+    });
+
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private static walk(element: HtmlElement, visit: (element: HtmlElement) => void): void {
+    for (const child of element.children) {
+      if (typeof child !== 'string') {
+        visit(child);
+        ReadabilityExtractor.walk(child, visit);
+      }
+    }
+  }
+
+  private static find(element: HtmlElement, tag: string): HtmlElement | undefined {
+    let found: HtmlElement | undefined;
+    ReadabilityExtractor.walk(element, node => {
+      if (!found && node.tag === tag) found = node;
+    });
+    return found;
+  }
+
+  private static text(element: HtmlElement): string {
+    const parts: string[] = [];
+    const collect = (node: HtmlNode) => {
+      if (typeof node === 'string') parts.push(node);
+      else node.children.forEach(collect);
+    };
+    collect(element);
+    return HtmlConverter.decode(parts.join(' ')).replace(/\s+/g, ' ').trim();
+  }
+
+  private static attribute(element: HtmlElement, name: string): string {
+    const match = element.attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? match[1] ?? match[2] ?? match[3] ?? '' : '';
+  }
+
+  private static serialize(node: HtmlNode): string {
+    if (typeof node === 'string') return node;
+
+    const inner = node.children.map(child => ReadabilityExtractor.serialize(child)).join('');
+    if (node.tag === '#root') return inner;
+    if (VOID_TAGS.has(node.tag)) return `<${node.tag}${node.attrs}>`;
+
+    return `<${node.tag}${node.attrs}>${inner}</${node.tag}>`;
+  }
+}
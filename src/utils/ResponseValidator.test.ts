@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ResponseValidator } from './ResponseValidator.js';
+
+const planning = {
+  analysis: 'Looking at supplements',
+  queries: [{ query: 'creatine benefits', purpose: 'Overview', priority: 1 }],
+  synthesis_note: 'Combine findings'
+};
+
+describe('ResponseValidator.stripMarkdownFences', () => {
+  it('unwraps a fenced JSON block', () => {
+    expect(ResponseValidator.stripMarkdownFences('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+  });
+
+  it('drops prose around the outermost object', () => {
+    expect(ResponseValidator.stripMarkdownFences('Sure! Here it is: {"a": {"b": 2}} Hope that helps.')).toBe('{"a": {"b": 2}}');
+  });
+});
+
+describe('ResponseValidator.validatePlanning', () => {
+  it('accepts a well-formed plan', () => {
+    const result = ResponseValidator.validatePlanning(JSON.stringify(planning));
+    expect(result).toEqual({ success: true, data: planning });
+  });
+
+  it('accepts a plan wrapped in a code fence', () => {
+    expect(ResponseValidator.validatePlanning('```json\n' + JSON.stringify(planning) + '\n```').success).toBe(true);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = ResponseValidator.validatePlanning('{"analysis": ');
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/^Invalid JSON/);
+  });
+
+  it('rejects a JSON array', () => {
+    expect(ResponseValidator.validatePlanning('[1, 2]')).toEqual({ success: false, error: 'Response must be a JSON object' });
+  });
+
+  it('lists every problem with its path', () => {
+    const result = ResponseValidator.validatePlanning(JSON.stringify({
+      analysis: 1,
+      queries: [{ query: ' ', purpose: 'x', priority: 'high', time_range: 'decade' }],
+      synthesis_note: 'ok'
+    }));
+
+    expect(result.success).toBe(false);
+    const error = !result.success ? result.error : '';
+    expect(error).toContain('analysis must be a string');
+    expect(error).toContain('queries[0].query must not be empty');
+    expect(error).toContain('queries[0].priority must be a number');
+    expect(error).toContain('queries[0].time_range must be one of');
+  });
+
+  it('requires at least one query', () => {
+    const result = ResponseValidator.validatePlanning(JSON.stringify({ ...planning, queries: [] }));
+    expect(!result.success && result.error).toContain('queries must contain at least one query');
+  });
+});
+
+describe('ResponseValidator.validateEvaluation', () => {
+  it('requires goal_met to be a boolean', () => {
+    const result = ResponseValidator.validateEvaluation(JSON.stringify({
+      summary: 's',
+      goal_met: 'yes',
+      gaps: [],
+      follow_up_queries: []
+    }));
+    expect(!result.success && result.error).toBe('goal_met must be a boolean');
+  });
+
+  it('checks gap types and impacts', () => {
+    const result = ResponseValidator.validateEvaluation(JSON.stringify({
+      summary: 's',
+      goal_met: false,
+      gaps: [{ type: 'other', description: 'd', impact: 'huge' }],
+      follow_up_queries: [{ query: 'q', rationale: 'r', priority: 1 }]
+    }));
+    expect(!result.success && result.error).toContain('gaps[0].type must be one of');
+    expect(!result.success && result.error).toContain('gaps[0].impact must be one of');
+  });
+});
+
+describe('ResponseValidator.validateFiltering', () => {
+  it('rejects indices outside the source list', () => {
+    const result = ResponseValidator.validateFiltering(JSON.stringify({
+      ranked_sources: [{ index: 3, relevance: 'high', reason: 'r' }],
+      excluded: [{ index: -1, reason: 'r' }]
+    }), 3);
+
+    expect(!result.success && result.error).toContain('ranked_sources[0].index must be an integer between 0 and 2');
+    expect(!result.success && result.error).toContain('excluded[0].index must be an integer between 0 and 2');
+  });
+
+  it('accepts in-range indices', () => {
+    const result = ResponseValidator.validateFiltering(JSON.stringify({
+      ranked_sources: [{ index: 0, relevance: 'medium', reason: 'r' }],
+      excluded: [{ index: 2, reason: 'off-topic' }]
+    }), 3);
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('ResponseValidator.validateSummary', () => {
+  it('requires a non-empty summary and a known relevance', () => {
+    const result = ResponseValidator.validateSummary(JSON.stringify({ summary: '', key_takeaway: 'k', relevance: 'critical' }));
+    expect(!result.success && result.error).toContain('summary must not be empty');
+    expect(!result.success && result.error).toContain('relevance must be one of');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Response validation for LLM JSON output
+ * Strips markdown fences, parses JSON and checks it against the expected response shape
+ */
+
+import type {
+  PlanningResponse,
+  EvaluationResponse,
+  FilteringResponse,
+  SummaryResponse
+} from '../types/index.js';
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+const RELEVANCE_LEVELS = ['high', 'medium', 'low'] as const;
+const GAP_TYPES = ['entity', 'conceptual'] as const;
+const TIME_RANGES = ['day', 'week', 'month', 'year'] as const;
+
+export class ResponseValidator {
+  /**
+   * Remove markdown code fences and any prose surrounding the JSON object
+   */
+  static stripMarkdownFences(raw: string): string {
+    let text = raw.trim();
+
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+      text = fenced[1].trim();
+    }
+
+    // Drop leading/trailing chatter around the outermost object
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      text = text.slice(start, end + 1);
+    }
+
+    return text;
+  }
+
+  static validatePlanning(raw: string): ValidationResult<PlanningResponse> {
+    return this.validate(raw, (data, errors) => {
+      this.expectString(data, 'analysis', errors);
+      this.expectString(data, 'synthesis_note', errors);
+
+      if (this.expectArray(data, 'queries', errors)) {
+        if (data.queries.length === 0) {
+          errors.push('queries must contain at least one query');
+        }
+        data.queries.forEach((item: any, i: number) => {
+          if (!this.expectObject(item, `queries[${i}]`, errors)) return;
+          this.expectString(item, 'query', errors, `queries[${i}]`, true);
+          this.expectString(item, 'purpose', errors, `queries[${i}]`);
+          this.expectNumber(item, 'priority', errors, `queries[${i}]`);
+          if (item.time_range !== undefined && item.time_range !== null) {
+            this.expectEnum(item, 'time_range', TIME_RANGES, errors, `queries[${i}]`);
+          }
+        });
+      }
+    });
+  }
+
+  static validateEvaluation(raw: string): ValidationResult<EvaluationResponse> {
+    return this.validate(raw, (data, errors) => {
+      this.expectString(data, 'summary', errors);
+
+      if (typeof data.goal_met !== 'boolean') {
+        errors.push('goal_met must be a boolean');
+      }
+
+      if (this.expectArray(data, 'gaps', errors)) {
+        data.gaps.forEach((item: any, i: number) => {
+          if (!this.expectObject(item, `gaps[${i}]`, errors)) return;
+          this.expectEnum(item, 'type', GAP_TYPES, errors, `gaps[${i}]`);
+          this.expectString(item, 'description', errors, `gaps[${i}]`);
+          this.expectEnum(item, 'impact', RELEVANCE_LEVELS, errors, `gaps[${i}]`);
+        });
+      }
+
+      if (this.expectArray(data, 'follow_up_queries', errors)) {
+        data.follow_up_queries.forEach((item: any, i: number) => {
+          if (!this.expectObject(item, `follow_up_queries[${i}]`, errors)) return;
+          this.expectString(item, 'query', errors, `follow_up_queries[${i}]`, true);
+          this.expectString(item, 'rationale', errors, `follow_up_queries[${i}]`);
+          this.expectNumber(item, 'priority', errors, `follow_up_queries[${i}]`);
+        });
+      }
+    });
+  }
+
+  /**
+   * @param sourceCount - Number of sources in the prompt; indices must fall within it
+   */
+  static validateFiltering(raw: string, sourceCount: number): ValidationResult<FilteringResponse> {
+    return this.validate(raw, (data, errors) => {
+      if (this.expectArray(data, 'ranked_sources', errors)) {
+        data.ranked_sources.forEach((item: any, i: number) => {
+          if (!this.expectObject(item, `ranked_sources[${i}]`, errors)) return;
+          this.expectIndex(item, sourceCount, errors, `ranked_sources[${i}]`);
+          this.expectEnum(item, 'relevance', RELEVANCE_LEVELS, errors, `ranked_sources[${i}]`);
+          this.expectString(item, 'reason', errors, `ranked_sources[${i}]`);
+        });
+      }
+
+      if (this.expectArray(data, 'excluded', errors)) {
+        data.excluded.forEach((item: any, i: number) => {
+          if (!this.expectObject(item, `excluded[${i}]`, errors)) return;
+          this.expectIndex(item, sourceCount, errors, `excluded[${i}]`);
+          this.expectString(item, 'reason', errors, `excluded[${i}]`);
+        });
+      }
+    });
+  }
+
+  static validateSummary(raw: string): ValidationResult<SummaryResponse> {
+    return this.validate(raw, (data, errors) => {
+      this.expectString(data, 'summary', errors, undefined, true);
+      this.expectString(data, 'key_takeaway', errors);
+      this.expectEnum(data, 'relevance', RELEVANCE_LEVELS, errors);
+    });
+  }
+
+  private static validate<T>(raw: string, check: (data: any, errors: string[]) => void): ValidationResult<T> {
+    let data: any;
+
+    try {
+      data = JSON.parse(this.stripMarkdownFences(raw));
+    } catch (error: any) {
+      return { success: false, error: `Invalid JSON: ${error.message}` };
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { success: false, error: 'Response must be a JSON object' };
+    }
+
+    const errors: string[] = [];
+    check(data, errors);
+
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('; ') };
+    }
+
+    return { success: true, data: data as T };
+  }
+
+  private static path(parent: string | undefined, key: string): string {
+    return parent ? `${parent}.${key}` : key;
+  }
+
+  private static expectObject(value: any, path: string, errors: string[]): boolean {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    return true;
+  }
+
+  private static expectString(obj: any, key: string, errors: string[], parent?: string, nonEmpty: boolean = false): void {
+    const value = obj[key];
+    if (typeof value !== 'string') {
+      errors.push(`${this.path(parent, key)} must be a string`);
+    } else if (nonEmpty && value.trim().length === 0) {
+      errors.push(`${this.path(parent, key)} must not be empty`);
+    }
+  }
+
+  private static expectNumber(obj: any, key: string, errors: string[], parent?: string): void {
+    if (typeof obj[key] !== 'number' || !Number.isFinite(obj[key])) {
+      errors.push(`${this.path(parent, key)} must be a number`);
+    }
+  }
+
+  private static expectArray(obj: any, key: string, errors: string[], parent?: string): boolean {
+    if (!Array.isArray(obj[key])) {
+      errors.push(`${this.path(parent, key)} must be an array`);
+      return false;
+    }
+    return true;
+  }
+
+  private static expectEnum(
+    obj: any,
+    key: string,
+    allowed: readonly string[],
+    errors: string[],
+    parent?: string
+  ): void {
+    if (!allowed.includes(obj[key])) {
+      errors.push(`${this.path(parent, key)} must be one of ${allowed.map(v => `"${v}"`).join(', ')}`);
+    }
+  }
+
+  private static expectIndex(obj: any, sourceCount: number, errors: string[], parent: string): void {
+    const index = obj.index;
+    if (!Number.isInteger(index) || index < 0 || index >= sourceCount) {
+      errors.push(`${parent}.index must be an integer between 0 and ${sourceCount - 1}`);
+    }
+  }
+}
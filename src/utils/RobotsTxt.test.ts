@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { RobotsTxt, DISALLOW_ALL } from './RobotsTxt.js';
+
+const USER_AGENT = 'ResearchBot/1.0 (+https://example.org/bot)';
+const page = (path: string) => `https://example.com${path}`;
+
+describe('RobotsTxt group selection', () => {
+  const text = [
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: OtherBot',
+    'User-agent: researchbot',
+    'Disallow: /private',
+    'Crawl-delay: 2.5'
+  ].join('\n');
+
+  it('uses the group naming our product token, case-insensitively', () => {
+    const robots = new RobotsTxt(text, USER_AGENT);
+
+    expect(robots.disallowedBy(page('/article'))).toBeUndefined();
+    expect(robots.disallowedBy(page('/private/notes'))).toBe('Disallow: /private');
+    expect(robots.crawlDelay).toBe(2.5);
+  });
+
+  it('falls back to the * group', () => {
+    const robots = new RobotsTxt(text, 'SomeCrawler/2.0');
+
+    expect(robots.disallowedBy(page('/article'))).toBe('Disallow: /');
+    expect(robots.crawlDelay).toBeUndefined();
+  });
+
+  it('merges groups that name the same agent', () => {
+    const robots = new RobotsTxt('User-agent: *\nDisallow: /a\n\nUser-agent: *\nDisallow: /b', USER_AGENT);
+
+    expect(robots.disallowedBy(page('/a'))).toBe('Disallow: /a');
+    expect(robots.disallowedBy(page('/b'))).toBe('Disallow: /b');
+  });
+});
+
+describe('RobotsTxt.disallowedBy', () => {
+  it('lets the longest match win and Allow win a tie', () => {
+    const robots = new RobotsTxt([
+      'User-agent: *',
+      'Disallow: /docs',
+      'Allow: /docs/public',
+      'Disallow: /tie',
+      'Allow: /tie'
+    ].join('\n'), USER_AGENT);
+
+    expect(robots.disallowedBy(page('/docs/secret'))).toBe('Disallow: /docs');
+    expect(robots.disallowedBy(page('/docs/public/page'))).toBeUndefined();
+    expect(robots.disallowedBy(page('/tie'))).toBeUndefined();
+  });
+
+  it('supports * wildcards, $ anchors and query strings', () => {
+    const robots = new RobotsTxt([
+      'User-agent: *',
+      'Disallow: /*.pdf$',
+      'Disallow: /search?q=',
+      'Disallow: /a.b'
+    ].join('\n'), USER_AGENT);
+
+    expect(robots.disallowedBy(page('/files/report.pdf'))).toBe('Disallow: /*.pdf$');
+    expect(robots.disallowedBy(page('/files/report.pdf.html'))).toBeUndefined();
+    expect(robots.disallowedBy(page('/search?q=creatine'))).toBe('Disallow: /search?q=');
+    expect(robots.disallowedBy(page('/axb'))).toBeUndefined(); // "." is literal
+  });
+
+  it('ignores comments, empty Disallow lines and rules before any User-agent', () => {
+    const robots = new RobotsTxt([
+      'Disallow: /orphan',
+      'User-agent: * # everyone',
+      'Disallow:',
+      'Disallow: /tmp # scratch'
+    ].join('\r\n'), USER_AGENT);
+
+    expect(robots.disallowedBy(page('/orphan'))).toBeUndefined();
+    expect(robots.disallowedBy(page('/'))).toBeUndefined();
+    expect(robots.disallowedBy(page('/tmp/file'))).toBe('Disallow: /tmp');
+  });
+
+  it('always allows /robots.txt itself', () => {
+    expect(new RobotsTxt(DISALLOW_ALL, USER_AGENT).disallowedBy(page('/robots.txt'))).toBeUndefined();
+  });
+
+  it('allows everything for an empty file', () => {
+    expect(new RobotsTxt('', USER_AGENT).disallowedBy(page('/anything'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * robots.txt rules for one site (RFC 9309, plus the common Crawl-delay extension)
+ */
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// Stored for hosts whose robots.txt could not be fetched because of a server error
+export const DISALLOW_ALL = 'User-agent: *\nDisallow: /';
+
+export class RobotsTxt {
+  private rules: RobotsRule[];
+  readonly crawlDelay?: number; // Seconds
+
+  /**
+   * @param userAgent - Our User-Agent header; its product token ("ResearchBot" in "ResearchBot/1.0")
+   *   selects the group, falling back to "*"
+   */
+  constructor(text: string, userAgent: string) {
+    const groups = RobotsTxt.parse(text);
+    const token = userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+
+    const own = groups.filter(group => group.agents.includes(token));
+    const selected = own.length > 0 ? own : groups.filter(group => group.agents.includes('*'));
+
+    // Groups naming the same agent are merged
+    this.rules = selected.flatMap(group => group.rules);
+    this.crawlDelay = selected.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  }
+
+  /**
+   * The rule that forbids fetching `url`, or undefined when it may be fetched
+   *
+   * The longest matching pattern wins; Allow wins a tie.
+   */
+  disallowedBy(url: string): string | undefined {
+    const { pathname, search } = new URL(url);
+    const path = pathname + search;
+    if (path === '/robots.txt') return undefined;
+
+    let best: RobotsRule | undefined;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(path)) continue;
+      if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best && !best.allow ? `Disallow: ${best.pattern}` : undefined;
+  }
+
+  private static parse(text: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | undefined;
+    let inAgentLines = false;
+
+    for (const rawLine of text.split(/\r?\n|\r/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !inAgentLines) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        inAgentLines = true;
+        continue;
+      }
+
+      inAgentLines = false;
+      if (!current) continue; // Rules before any User-agent line
+
+      if ((field === 'allow' || field === 'disallow') && value.length > 0) {
+        current.rules.push({ allow: field === 'allow', pattern: value, regex: RobotsTxt.toRegExp(value) });
+      } else if (field === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+      }
+    }
+
+    return groups;
+  }
+
+  // "*" matches any run of characters; a trailing "$" anchors the end; otherwise a prefix match
+  private static toRegExp(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+}
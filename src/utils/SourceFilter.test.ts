@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { SourceFilter } from './SourceFilter.js';
+import type { SearchResult } from '../types/index.js';
+
+const result = (url: string): SearchResult => ({ title: url, url, snippet: '' });
+const urls = (results: SearchResult[]) => results.map(r => r.url);
+
+describe('SourceFilter.domainOf', () => {
+  it('lowercases and drops a leading www.', () => {
+    expect(SourceFilter.domainOf('https://WWW.Example.com/path')).toBe('example.com');
+  });
+
+  it('returns null for unparseable URLs', () => {
+    expect(SourceFilter.domainOf('not a url')).toBeNull();
+  });
+});
+
+describe('SourceFilter.matches', () => {
+  it('matches plain patterns against the domain and its subdomains', () => {
+    expect(SourceFilter.matches('pubmed.ncbi.nih.gov', 'nih.gov')).toBe(true);
+    expect(SourceFilter.matches('nih.gov', 'www.NIH.gov')).toBe(true);
+    expect(SourceFilter.matches('notnih.gov', 'nih.gov')).toBe(false);
+  });
+
+  it('treats patterns with * as globs over the whole hostname', () => {
+    expect(SourceFilter.matches('cdc.gov', '*.gov')).toBe(true);
+    expect(SourceFilter.matches('pinterest.co.uk', 'pinterest.*')).toBe(true);
+    expect(SourceFilter.matches('gov.example.com', '*.gov')).toBe(false);
+  });
+});
+
+describe('SourceFilter.apply', () => {
+  it('checks deny before allow and records why results were dropped', () => {
+    const filter = new SourceFilter({ allowDomains: ['*.gov'], denyDomains: ['spam.gov'] });
+
+    const kept = filter.apply([
+      result('https://cdc.gov/a'),
+      result('https://spam.gov/b'),
+      result('https://example.com/c'),
+      result('nonsense')
+    ]);
+
+    expect(urls(kept)).toEqual(['https://cdc.gov/a']);
+    expect(filter.getFiltered()).toEqual([
+      { url: 'https://spam.gov/b', reason: 'denied', rule: 'spam.gov' },
+      { url: 'https://example.com/c', reason: 'not-allowed', rule: undefined },
+      { url: 'nonsense', reason: 'invalid-url', rule: undefined }
+    ]);
+  });
+
+  it('caps sources per domain across rounds but re-accepts known URLs', () => {
+    const filter = new SourceFilter({ maxPerDomain: 2 });
+
+    expect(urls(filter.apply([result('https://a.com/1'), result('https://a.com/2')]))).toHaveLength(2);
+    expect(urls(filter.apply([result('https://a.com/1'), result('https://a.com/3')]))).toEqual(['https://a.com/1']);
+    expect(filter.getFiltered()).toEqual([{ url: 'https://a.com/3', reason: 'domain-limit', rule: 'a.com (2)' }]);
+  });
+
+  it('always passes local corpus files', () => {
+    const filter = new SourceFilter({ allowDomains: ['nih.gov'] });
+    expect(urls(filter.apply([result('file:///notes/creatine.md')]))).toEqual(['file:///notes/creatine.md']);
+  });
+
+  it('moves boosted domains to the front, keeping relative order', () => {
+    const filter = new SourceFilter({ boostDomains: ['nih.gov'] });
+
+    const kept = filter.apply([
+      result('https://a.com/1'),
+      result('https://nih.gov/1'),
+      result('https://b.com/1'),
+      result('https://pubmed.nih.gov/2')
+    ]);
+
+    expect(urls(kept)).toEqual(['https://nih.gov/1', 'https://pubmed.nih.gov/2', 'https://a.com/1', 'https://b.com/1']);
+    expect(filter.isBoosted('https://www.nih.gov/x')).toBe(true);
+    expect(filter.isBoosted('https://a.com/1')).toBe(false);
+  });
+
+  it('keeps everything without a policy', () => {
+    const filter = new SourceFilter();
+    const results = [result('https://a.com/1'), result('https://a.com/2')];
+
+    expect(filter.apply(results)).toEqual(results);
+    expect(filter.getFiltered()).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Source policy enforcement for a research run
+ * Drops search results from denied or unlisted domains, caps sources per domain,
+ * and moves boosted domains to the front before scraping
+ */
+
+import type { FilteredSource, SearchResult, SourcePolicy } from '../types/index.js';
+
+export class SourceFilter {
+  private policy: SourcePolicy;
+  private accepted: Set<string> = new Set();
+  private domainCounts: Map<string, number> = new Map();
+  private filtered: FilteredSource[] = [];
+
+  constructor(policy: SourcePolicy = {}) {
+    this.policy = policy;
+  }
+
+  /**
+   * Apply the policy to one round of results
+   *
+   * Domain counts carry over between rounds; a URL accepted in an earlier round is accepted again.
+   */
+  apply(results: SearchResult[]): SearchResult[] {
+    const { allowDomains, denyDomains, maxPerDomain } = this.policy;
+    const kept: SearchResult[] = [];
+
+    for (const result of results) {
+      // Domain rules are for the web; local corpus files always pass
+      if (this.accepted.has(result.url) || result.url.startsWith('file:')) {
+        kept.push(result);
+        continue;
+      }
+
+      const domain = SourceFilter.domainOf(result.url);
+      if (!domain) {
+        this.reject(result.url, 'invalid-url');
+        continue;
+      }
+
+      const denied = denyDomains?.find(pattern => SourceFilter.matches(domain, pattern));
+      if (denied) {
+        this.reject(result.url, 'denied', denied);
+        continue;
+      }
+
+      if (allowDomains?.length && !allowDomains.some(pattern => SourceFilter.matches(domain, pattern))) {
+        this.reject(result.url, 'not-allowed');
+        continue;
+      }
+
+      const count = this.domainCounts.get(domain) ?? 0;
+      if (maxPerDomain !== undefined && count >= maxPerDomain) {
+        this.reject(result.url, 'domain-limit', `${domain} (${maxPerDomain})`);
+        continue;
+      }
+
+      this.domainCounts.set(domain, count + 1);
+      this.accepted.add(result.url);
+      kept.push(result);
+    }
+
+    return this.boost(kept);
+  }
+
+  isBoosted(url: string): boolean {
+    const boostDomains = this.policy.boostDomains;
+    if (!boostDomains?.length) return false;
+
+    const domain = SourceFilter.domainOf(url);
+    return domain !== null && boostDomains.some(pattern => SourceFilter.matches(domain, pattern));
+  }
+
+  getFiltered(): FilteredSource[] {
+    return [...this.filtered];
+  }
+
+  /**
+   * Hostname without a leading "www.", or null for URLs that don't parse
+   */
+  static domainOf(url: string): string | null {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Patterns with `*` are globs over the whole hostname ('*.gov', 'pinterest.*');
+   * plain patterns match the domain and its subdomains ('nih.gov' matches 'pubmed.ncbi.nih.gov')
+   */
+  static matches(domain: string, pattern: string): boolean {
+    const normalized = pattern.trim().toLowerCase().replace(/^www\./, '');
+
+    if (normalized.includes('*')) {
+      const regex = new RegExp(`^${normalized.split('*').map(escapeRegExp).join('.*')}$`);
+      return regex.test(domain);
+    }
+
+    return domain === normalized || domain.endsWith(`.${normalized}`);
+  }
+
+  // Stable: boosted results keep their relative order, as do the rest
+  private boost(results: SearchResult[]): SearchResult[] {
+    if (!this.policy.boostDomains?.length) return results;
+
+    return [
+      ...results.filter(result => this.isBoosted(result.url)),
+      ...results.filter(result => !this.isBoosted(result.url))
+    ];
+  }
+
+  private reject(url: string, reason: FilteredSource['reason'], rule?: string): void {
+    this.filtered.push({ url, reason, rule });
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}